@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   HashRouter,
   Routes,
@@ -6,37 +6,55 @@ import {
   useNavigate,
   useLocation,
   Link,
+  Navigate,
 } from "react-router-dom";
 import { Sidebar } from "./components/Sidebar";
 import { Settings } from "./components/Settings";
 import { DatabaseUpgradePrompt } from "./components/DatabaseUpgradePrompt";
 import { FullscreenImageViewer } from "./components/FullscreenImageViewer";
-import { BottomSheet } from "./components/BottomSheet";
+import { BottomSheet, WordAction } from "./components/BottomSheet";
 import { ReaderPage } from "./pages/ReaderPage";
 import { BooksPage } from "./pages/BooksPage";
 import { BookDetailPage } from "./pages/BookDetailPage";
+import { BookReaderPage } from "./pages/BookReaderPage";
 import { CreatePagePage } from "./pages/CreatePagePage";
 import { VocabPage } from "./pages/VocabPage";
 import { ReviewPage } from "./pages/ReviewPage";
 import { ReviewHistoryPage } from "./pages/ReviewHistoryPage";
 import { StatsPage } from "./pages/StatsPage";
+import { SearchPage } from "./pages/SearchPage";
 import { ProcessingScreen } from "./components/ProcessingScreen";
 import { PageGallery } from "./components/PageGallery";
-import { GeminiService } from "./services/gemini";
+import { AIService, getMissingAICredentials } from "./services/ai";
+import { processingQueue } from "./services/processingQueue";
+import { syncService } from "./services/sync";
+import { speechService } from "./services/speech";
 import { indexedDBService } from "./services/indexedDB";
 import { fsrsService } from "./services/fsrs";
-import { PageData, WordInfo, AppSettings, Book, VocabContext } from "./types";
-import { compressImage } from "./utils/imageCompression";
+import { DeckResolver, loadDeckResolver } from "./services/decks";
+import {
+  PageData,
+  WordInfo,
+  AppSettings,
+  Book,
+  VocabContext,
+  ProcessingJob,
+  PhraseInfo,
+  ReadingProgress,
+  Sentence,
+  VocabWord,
+  GrammarExplanation,
+} from "./types";
 import { hashString } from "./utils/hash";
+import { buildWordContext } from "./utils/vocab";
+import {
+  buildVocabLookup,
+  findUnseenWords,
+  findVocabWord,
+  getVocabWordStatus,
+} from "./utils/comprehension";
 import { DEFAULT_NATIVE_LANGUAGE } from "./constants";
 
-type ProcessingStep =
-  | "extracting"
-  | "splitting"
-  | "translating"
-  | "saving"
-  | null;
-
 function AppContent() {
   const navigate = useNavigate();
   const location = useLocation();
@@ -53,14 +71,19 @@ function AppContent() {
   const [books, setBooks] = useState<Book[]>([]);
   const [currentPage, setCurrentPage] = useState<PageData | null>(null);
   const [selectedWord, setSelectedWord] = useState<WordInfo | null>(null);
-  const [processingStep, setProcessingStep] = useState<ProcessingStep>(null);
-  const [currentProcessingPage, setCurrentProcessingPage] = useState<number>(1);
-  const [totalProcessingPages, setTotalProcessingPages] = useState<number>(1);
+  // Where the selected word was tapped, for the bottom sheet's vocab actions
+  const [selectedWordSource, setSelectedWordSource] = useState<{
+    language: string;
+    context: VocabContext;
+  } | null>(null);
+  const [processingJobs, setProcessingJobs] = useState<ProcessingJob[]>([]);
   const [fullscreenImage, setFullscreenImage] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState<boolean>(
     typeof window !== "undefined" ? window.innerWidth >= 1024 : true
   );
   const [dueCount, setDueCount] = useState<number>(0);
+  const [vocabWords, setVocabWords] = useState<VocabWord[]>([]);
+  const [deckFor, setDeckFor] = useState<DeckResolver | undefined>();
 
   // Load initial data
   useEffect(() => {
@@ -81,6 +104,25 @@ function AppContent() {
 
         const savedBooks = await indexedDBService.getBooks();
         setBooks(savedBooks);
+
+        // Pick up any page processing interrupted by a refresh or closed tab
+        const hasPendingJobs = await processingQueue.resume();
+        if (hasPendingJobs && savedSettings) {
+          processingQueue.start(savedSettings);
+        }
+
+        // Bring in changes made on other devices
+        if (savedSettings?.syncUrl) {
+          syncService
+            .sync(savedSettings)
+            .then(async (result) => {
+              if (result.pulled === 0) return;
+              setPages(await indexedDBService.getPages());
+              setBooks(await indexedDBService.getBooks());
+              setVocabWords(await indexedDBService.getVocabWords());
+            })
+            .catch((error) => console.error("Error syncing:", error));
+        }
       } catch (error) {
         console.error("Error loading data:", error);
       }
@@ -89,6 +131,53 @@ function AppContent() {
     loadData();
   }, []);
 
+  // Keep the processing screen in sync with the persistent job queue
+  useEffect(() => {
+    return processingQueue.subscribe(setProcessingJobs);
+  }, []);
+
+  // Jobs still waiting for or being processed; failed jobs wait for the user
+  const activeJobs = processingJobs.filter(
+    (j) => j.status !== "saved" && j.status !== "failed"
+  );
+  const failedJobs = processingJobs.filter((j) => j.status === "failed");
+
+  // When a batch finishes, load the new pages and open the last one. Failed
+  // jobs don't hold the batch back; they stay listed to retry or drop.
+  useEffect(() => {
+    const hasUnfinished = processingJobs.some(
+      (j) => j.status !== "saved" && j.status !== "failed"
+    );
+    const savedJobs = processingJobs.filter((j) => j.status === "saved");
+    if (hasUnfinished || savedJobs.length === 0) return;
+
+    const finishBatch = async () => {
+      const updatedPages = await indexedDBService.getPages();
+      setPages(updatedPages);
+      await processingQueue.clearSaved();
+
+      const lastPageId = savedJobs[savedJobs.length - 1].pageId;
+      const lastPage = updatedPages.find((p) => p.id === lastPageId);
+      if (lastPage) {
+        setCurrentPage(lastPage);
+        navigate(`/pages/${lastPage.id}`);
+      }
+    };
+    finishBatch();
+  }, [processingJobs, navigate]);
+
+  // Word colors in the reader follow reviews, vocab changes and deck settings
+  // made on other screens
+  useEffect(() => {
+    indexedDBService
+      .getVocabWords()
+      .then(setVocabWords)
+      .catch((error) => console.error("Error loading vocabulary:", error));
+    loadDeckResolver()
+      .then((resolver) => setDeckFor(() => resolver))
+      .catch((error) => console.error("Error loading deck settings:", error));
+  }, [location.pathname]);
+
   // Load due count when language changes
   useEffect(() => {
     const loadDueCount = async () => {
@@ -100,6 +189,11 @@ function AppContent() {
     loadDueCount();
   }, [settings.selectedLanguage]);
 
+  // Read aloud with the voices and rate chosen in settings
+  useEffect(() => {
+    speechService.configure(settings.speechVoices, settings.speechRate);
+  }, [settings.speechVoices, settings.speechRate]);
+
   // Apply dark mode
   useEffect(() => {
     if (settings.darkMode) {
@@ -202,114 +296,41 @@ function AppContent() {
     language: string;
     bookId?: string;
     startingPageNumber?: number;
+    bypassTranslationCache?: boolean;
   }) => {
-    if (!settings.apiKey) {
-      alert("Please set your Google Gemini API key in settings first.");
+    const missingCredentials = getMissingAICredentials(settings);
+    if (missingCredentials) {
+      alert(missingCredentials);
       setShowSettings(true);
       return;
     }
 
-    const totalPages = data.dataUrls.length;
-    setTotalProcessingPages(totalPages);
-    let lastCreatedPageId: string | null = null;
-
-    try {
-      const geminiService = new GeminiService(settings.apiKey);
-
-      // Process each image sequentially
-      for (let i = 0; i < data.dataUrls.length; i++) {
-        const dataUrl = data.dataUrls[i];
-        const currentPageNum = i + 1;
-        setCurrentProcessingPage(currentPageNum);
-
-        // Calculate page number for this image
-        const pageNumber = data.startingPageNumber
-          ? data.startingPageNumber + i
-          : undefined;
-
-        // Step 1: Extract text
-        setProcessingStep("extracting");
-        const compressedImage = await compressImage(dataUrl);
-        const paragraphTexts = await geminiService.extractParagraphs(
-          dataUrl,
-          data.language
-        );
-
-        if (paragraphTexts.length === 0) {
-          alert(
-            `No text could be extracted from image ${currentPageNum} of ${totalPages}. Skipping this image.`
-          );
-          continue;
-        }
-
-        // Step 2: Split and translate
-        setProcessingStep("translating");
-        const processedParagraphs =
-          await geminiService.processParagraphsConcurrently(
-            paragraphTexts,
-            data.language,
-            settings.nativeLanguage
-          );
-
-        // Step 3: Save
-        setProcessingStep("saving");
-        const newPage: PageData = {
-          id: Date.now().toString() + "_" + i, // Add index to ensure unique IDs
-          imageDataUrl: compressedImage,
-          paragraphs: processedParagraphs,
-          timestamp: Date.now() + i, // Add small offset to maintain order
-          originalText: paragraphTexts.join("\n\n"),
-          language: data.language,
-          bookId: data.bookId,
-          pageNumber: pageNumber,
-        };
-
-        await indexedDBService.savePage(newPage);
-        lastCreatedPageId = newPage.id;
-
-        // Small delay between pages to avoid rate limiting
-        if (i < data.dataUrls.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 500));
-        }
-      }
-
-      // Update recent languages
-      const updatedRecentLanguages = [
-        data.language,
-        ...settings.recentLanguages.filter((l) => l !== data.language),
-      ].slice(0, 5);
-
-      const updatedSettings = {
-        ...settings,
-        recentLanguages: updatedRecentLanguages,
-      };
-      setSettings(updatedSettings);
-      await indexedDBService.saveSettings(updatedSettings);
-
-      const updatedPages = await indexedDBService.getPages();
-      setPages(updatedPages);
-
-      // Navigate to the last created page
-      if (lastCreatedPageId) {
-        const lastPage = updatedPages.find((p) => p.id === lastCreatedPageId);
-        if (lastPage) {
-          setCurrentPage(lastPage);
-          navigate(`/pages/${lastCreatedPageId}`);
-        }
-      }
+    await processingQueue.enqueue({
+      dataUrls: data.dataUrls,
+      language: data.language,
+      targetLanguage: settings.nativeLanguage,
+      bookId: data.bookId,
+      startingPageNumber: data.startingPageNumber,
+      bypassTranslationCache: data.bypassTranslationCache,
+    });
+    processingQueue.start(settings);
+
+    // Update recent languages
+    const updatedRecentLanguages = [
+      data.language,
+      ...settings.recentLanguages.filter((l) => l !== data.language),
+    ].slice(0, 5);
+
+    const updatedSettings = {
+      ...settings,
+      recentLanguages: updatedRecentLanguages,
+    };
+    setSettings(updatedSettings);
+    await indexedDBService.saveSettings(updatedSettings);
+  };
 
-      setProcessingStep(null);
-      setCurrentProcessingPage(1);
-      setTotalProcessingPages(1);
-    } catch (error) {
-      console.error("Error processing images:", error);
-      alert(
-        "An error occurred while processing the images. Please check your API key and try again."
-      );
-      setProcessingStep(null);
-      setCurrentProcessingPage(1);
-      setTotalProcessingPages(1);
-    }
+  const handleRetryJob = (jobId: string) => {
+    processingQueue.retry(jobId, settings);
   };
 
   const handleSelectPage = (page: PageData) => {
@@ -323,39 +344,215 @@ function AppContent() {
     sentenceText: string,
     sentenceWords: Map<string, WordInfo>
   ) => {
+    const seenAt = Date.now();
+
     // Set selected word for bottom sheet
     setSelectedWord(wordInfo);
+    setSelectedWordSource({
+      language: pageLanguage,
+      context: buildWordContext(wordInfo, sentenceText, pageId, seenAt),
+    });
 
-    // Add ALL words from the sentence to vocabulary
+    // By default ALL words from the sentence are added to vocabulary
     // (clicking any word means you've read the entire sentence and encountered all words)
+    const wordsToAdd =
+      settings.vocabAddMode === "tapped"
+        ? [wordInfo]
+        : Array.from(sentenceWords.values());
+
     try {
-      const seenAt = Date.now();
       const fsrsCard = fsrsService.createCard();
-      const sentenceId = hashString(sentenceText);
-
-      // Iterate through all words in the sentence
-      for (const [, info] of sentenceWords.entries()) {
-        const context: VocabContext = {
-          sentenceId,
-          sentenceText: sentenceText, // The original sentence text
-          sentenceTranslation: info.sentenceTranslation,
-          meaning: info.meaning,
-          pageId,
-          seenAt,
-        };
 
+      for (const info of wordsToAdd) {
         await indexedDBService.addVocabWord(
-          info.word,
+          info.lemma || info.word,
           pageLanguage,
-          context,
+          buildWordContext(info, sentenceText, pageId, seenAt),
           fsrsCard
         );
       }
+      setVocabWords(await indexedDBService.getVocabWords());
     } catch (error) {
       console.error("Error adding words to vocabulary:", error);
     }
   };
 
+  const handlePhraseSelect = async (
+    phrase: PhraseInfo,
+    sentence: Sentence,
+    pageId: string,
+    pageLanguage: string
+  ) => {
+    const context: VocabContext = {
+      sentenceId: hashString(sentence.text),
+      sentenceText: sentence.text,
+      sentenceTranslation: sentence.translation,
+      meaning: phrase.meaning,
+      pageId,
+      seenAt: Date.now(),
+    };
+
+    setSelectedWord({
+      word: phrase.phrase,
+      meaning: phrase.meaning,
+      sentenceTranslation: sentence.translation,
+      isPhrase: true,
+    });
+    setSelectedWordSource({ language: pageLanguage, context });
+
+    // Selecting an expression adds it to vocabulary as its own card
+    try {
+      await indexedDBService.addVocabWord(
+        phrase.phrase,
+        pageLanguage,
+        context,
+        fsrsService.createCard(),
+        true
+      );
+      setVocabWords(await indexedDBService.getVocabWords());
+    } catch (error) {
+      console.error("Error adding expression to vocabulary:", error);
+    }
+  };
+
+  const selectedVocabWord = useMemo(() => {
+    if (!selectedWord || !selectedWordSource) return undefined;
+    const { language } = selectedWordSource;
+    if (selectedWord.isPhrase) {
+      const phrase = selectedWord.word.toLowerCase();
+      return vocabWords.find(
+        (w) => w.isPhrase && w.word === phrase && w.language === language
+      );
+    }
+    return findVocabWord(selectedWord, buildVocabLookup(vocabWords, language));
+  }, [selectedWord, selectedWordSource, vocabWords]);
+
+  const handleWordAction = async (action: WordAction) => {
+    if (!selectedWord || !selectedWordSource) return;
+
+    const { language, context } = selectedWordSource;
+    const isPhrase = !!selectedWord.isPhrase;
+    const word =
+      selectedVocabWord?.word ||
+      (isPhrase ? selectedWord.word : selectedWord.lemma || selectedWord.word);
+
+    try {
+      if (action === "known") {
+        await indexedDBService.markWordsKnown(
+          [{ word, context, isPhrase }],
+          language,
+          fsrsService.createKnownCard()
+        );
+      } else if (action === "remove") {
+        await indexedDBService.deleteVocabWord(word, language);
+      } else if (!selectedVocabWord) {
+        await indexedDBService.addVocabWord(
+          word,
+          language,
+          context,
+          fsrsService.createCard(),
+          isPhrase
+        );
+        if (action === "ignore") {
+          await indexedDBService.toggleIgnoreWord(word, language);
+        }
+      } else if (action === "ignore" || selectedVocabWord.ignored) {
+        await indexedDBService.toggleIgnoreWord(word, language);
+      } else {
+        // Studying a known word starts it over with a fresh card
+        await indexedDBService.updateVocabCard(
+          word,
+          language,
+          fsrsService.createCard()
+        );
+      }
+      setVocabWords(await indexedDBService.getVocabWords());
+    } catch (error) {
+      console.error("Error updating vocabulary:", error);
+    }
+  };
+
+  // Grammar of the selected word's sentence. Explained once by the AI, then
+  // read back from the page, also offline.
+  const handleExplain = async (): Promise<GrammarExplanation> => {
+    if (!selectedWordSource) throw new Error("No sentence selected");
+
+    const { language, context } = selectedWordSource;
+    const nativeLanguage = settings.nativeLanguage || DEFAULT_NATIVE_LANGUAGE;
+    const page = context.pageId
+      ? await indexedDBService.getPage(context.pageId)
+      : null;
+    const cached = page?.paragraphs
+      .flatMap((p) => p.sentences)
+      .find((s) => hashString(s.text) === context.sentenceId)?.explanation;
+    if (cached && cached.language === nativeLanguage) return cached;
+
+    const missingCredentials = getMissingAICredentials(settings);
+    if (missingCredentials) throw new Error(missingCredentials);
+
+    const explanation = await new AIService(settings).explainGrammar(
+      context.sentenceText,
+      language,
+      nativeLanguage
+    );
+    const updated =
+      page &&
+      (await indexedDBService.saveSentenceExplanation(
+        page.id,
+        context.sentenceId,
+        explanation
+      ));
+    if (updated) {
+      setPages((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      setCurrentPage((prev) => (prev?.id === updated.id ? updated : prev));
+    }
+    return explanation;
+  };
+
+  // Everything on the page not yet in the vocabulary goes in as known
+  const handleMarkUnseenKnown = async (page: PageData) => {
+    const unseen = findUnseenWords(
+      page,
+      buildVocabLookup(vocabWords, page.language)
+    );
+    if (unseen.length === 0) return;
+
+    const seenAt = Date.now();
+    try {
+      await indexedDBService.markWordsKnown(
+        unseen.map(({ info, sentenceText }) => ({
+          word: info.lemma || info.word,
+          context: buildWordContext(info, sentenceText, page.id, seenAt),
+        })),
+        page.language,
+        fsrsService.createKnownCard()
+      );
+      setVocabWords(await indexedDBService.getVocabWords());
+    } catch (error) {
+      console.error("Error marking words as known:", error);
+    }
+  };
+
+  const handlePageEdited = async () => {
+    setPages(await indexedDBService.getPages());
+  };
+
+  const handlePageRead = async (page: PageData) => {
+    await indexedDBService.savePage({ ...page, readAt: Date.now() });
+    setPages(await indexedDBService.getPages());
+  };
+
+  const handleReadingProgress = async (
+    bookId: string,
+    readingProgress: ReadingProgress
+  ) => {
+    const book = books.find((b) => b.id === bookId);
+    if (!book) return;
+
+    await indexedDBService.saveBook({ ...book, readingProgress });
+    setBooks(await indexedDBService.getBooks());
+  };
+
   const handleDeletePage = async (id: string) => {
     if (!window.confirm("Delete this page?")) return;
 
@@ -373,7 +570,7 @@ function AppContent() {
   };
 
   // Get current page from URL if on reader route
-  const pageMatch = location.pathname.match(/^\/pages\/(.+)$/);
+  const pageMatch = location.pathname.match(/^\/pages\/([^/]+)/);
   const currentPageFromRoute = pageMatch
     ? pages.find((p) => p.id === pageMatch[1])
     : null;
@@ -426,14 +623,17 @@ function AppContent() {
       );
     }
 
-    // Check if on book detail page (don't make it a link since we're already on that page)
-    const bookDetailMatch = location.pathname.match(/^\/books\/(.+)$/);
+    // Check if on book detail page (don't make it a link since we're already on
+    // that page) or reading the whole book (link back to its details)
+    const bookDetailMatch = location.pathname.match(
+      /^\/books\/([^/]+)(\/read)?$/
+    );
     if (bookDetailMatch) {
       const bookId = bookDetailMatch[1];
       const book = books.find((b) => b.id === bookId);
       if (book) {
-        return (
-          <div className="flex items-center gap-3 min-w-0">
+        const bookHeader = (
+          <>
             {book.coverImageUrl && (
               <img
                 src={book.coverImageUrl}
@@ -451,7 +651,18 @@ function AppContent() {
                 </p>
               )}
             </div>
-          </div>
+          </>
+        );
+
+        return bookDetailMatch[2] ? (
+          <Link
+            to={`/books/${book.id}`}
+            className="flex items-center gap-3 min-w-0 hover:opacity-75 transition-opacity"
+          >
+            {bookHeader}
+          </Link>
+        ) : (
+          <div className="flex items-center gap-3 min-w-0">{bookHeader}</div>
         );
       }
     }
@@ -530,6 +741,20 @@ function AppContent() {
       );
     }
 
+    // Search page
+    if (location.pathname === "/search") {
+      return (
+        <div className="min-w-0">
+          <h1 className="text-lg md:text-xl font-bold text-gray-900 dark:text-white">
+            Search
+          </h1>
+          <p className="text-xs text-gray-600 dark:text-gray-400 hidden sm:block">
+            Pages, translations and vocabulary
+          </p>
+        </div>
+      );
+    }
+
     // Statistics page
     if (location.pathname === "/stats") {
       return (
@@ -710,21 +935,59 @@ function AppContent() {
 
         {/* Content Area - Routes */}
         <div className="flex-1 overflow-y-auto bg-white dark:bg-gray-950">
-          {processingStep ? (
+          {failedJobs.length > 0 &&
+            activeJobs.length === 0 &&
+            location.pathname !== "/processing" && (
+              <div className="flex items-center justify-between gap-3 px-4 py-2 bg-red-50 dark:bg-red-900/30 border-b border-red-200 dark:border-red-700 text-sm text-red-800 dark:text-red-200">
+                <span>
+                  {failedJobs.length === 1
+                    ? "1 page could not be processed."
+                    : `${failedJobs.length} pages could not be processed.`}
+                </span>
+                <Link
+                  to="/processing"
+                  className="font-medium underline hover:no-underline"
+                >
+                  Retry or drop
+                </Link>
+              </div>
+            )}
+          {activeJobs.length > 0 ? (
             <ProcessingScreen
-              step={processingStep}
-              currentPage={currentProcessingPage}
-              totalPages={totalProcessingPages}
+              jobs={processingJobs}
+              onRetry={handleRetryJob}
+              onDrop={(jobId) => processingQueue.drop(jobId)}
             />
           ) : (
             <Routes>
+              <Route
+                path="/processing"
+                element={
+                  failedJobs.length > 0 ? (
+                    <ProcessingScreen
+                      jobs={failedJobs}
+                      onRetry={handleRetryJob}
+                      onDrop={(jobId) => processingQueue.drop(jobId)}
+                    />
+                  ) : (
+                    <Navigate to="/" replace />
+                  )
+                }
+              />
               <Route
                 path="/"
                 element={
                   <ReaderPage
                     pages={pages}
                     onWordClick={handleWordClick}
+                    onPhraseSelect={handlePhraseSelect}
                     selectedWord={selectedWord}
+                    settings={settings}
+                    onPageEdited={handlePageEdited}
+                    vocabWords={vocabWords}
+                    deckFor={deckFor}
+                    onMarkUnseenKnown={handleMarkUnseenKnown}
+                    onPageRead={handlePageRead}
                   />
                 }
               />
@@ -734,15 +997,46 @@ function AppContent() {
                   <ReaderPage
                     pages={pages}
                     onWordClick={handleWordClick}
+                    onPhraseSelect={handlePhraseSelect}
                     selectedWord={selectedWord}
+                    settings={settings}
+                    onPageEdited={handlePageEdited}
+                    vocabWords={vocabWords}
+                    deckFor={deckFor}
+                    onMarkUnseenKnown={handleMarkUnseenKnown}
+                    onPageRead={handlePageRead}
                   />
                 }
               />
+              <Route
+                path="/pages/:pageId/s/:sentenceId"
+                element={
+                  <ReaderPage
+                    pages={pages}
+                    onWordClick={handleWordClick}
+                    onPhraseSelect={handlePhraseSelect}
+                    selectedWord={selectedWord}
+                    settings={settings}
+                    onPageEdited={handlePageEdited}
+                    vocabWords={vocabWords}
+                    deckFor={deckFor}
+                    onMarkUnseenKnown={handleMarkUnseenKnown}
+                    onPageRead={handlePageRead}
+                  />
+                }
+              />
+              <Route
+                path="/search"
+                element={<SearchPage pages={pages} books={books} />}
+              />
               <Route
                 path="/books"
                 element={
                   <BooksPage
                     books={books}
+                    pages={pages}
+                    vocabWords={vocabWords}
+                    deckFor={deckFor}
                     onCreateBook={handleCreateBook}
                     onDeleteBook={handleDeleteBook}
                     getPageCountForBook={getPageCountForBook}
@@ -760,12 +1054,27 @@ function AppContent() {
                   />
                 }
               />
+              <Route
+                path="/books/:bookId/read"
+                element={
+                  <BookReaderPage
+                    books={books}
+                    pages={pages}
+                    onWordClick={handleWordClick}
+                    onPhraseSelect={handlePhraseSelect}
+                    selectedWord={selectedWord}
+                    onReadingProgress={handleReadingProgress}
+                    vocabWords={vocabWords}
+                    deckFor={deckFor}
+                  />
+                }
+              />
               <Route
                 path="/create-page"
                 element={
                   <CreatePagePage
                     onImageSelect={handleImageSelect}
-                    isProcessing={false}
+                    isProcessing={activeJobs.length > 0}
                     recentLanguages={settings.recentLanguages}
                     books={books}
                     onCreateBook={handleCreateBook}
@@ -785,7 +1094,10 @@ function AppContent() {
               <Route
                 path="/review"
                 element={
-                  <ReviewPage selectedLanguage={settings.selectedLanguage} />
+                  <ReviewPage
+                    selectedLanguage={settings.selectedLanguage}
+                    typedAnswers={settings.typedAnswers}
+                  />
                 }
               />
               <Route
@@ -810,7 +1122,21 @@ function AppContent() {
       {/* Bottom Sheet */}
       <BottomSheet
         wordInfo={selectedWord}
-        onClose={() => setSelectedWord(null)}
+        language={selectedWordSource?.language}
+        onClose={() => {
+          setSelectedWord(null);
+          setSelectedWordSource(null);
+        }}
+        status={
+          selectedWordSource
+            ? getVocabWordStatus(
+                selectedVocabWord,
+                selectedVocabWord && deckFor?.(selectedVocabWord).masteryInterval
+              )
+            : undefined
+        }
+        onAction={handleWordAction}
+        onExplain={selectedWordSource ? handleExplain : undefined}
       />
 
       {/* Settings Modal */}
@@ -1,17 +1,45 @@
 import React from "react";
-import { WordInfo } from "../types";
+import { GrammarExplanation, WordInfo } from "../types";
+import { WordStatus } from "../utils/comprehension";
+import { SpeakButton } from "./SpeakButton";
+import { SentenceExplanation } from "./SentenceExplanation";
+
+export type WordAction = "study" | "known" | "ignore" | "remove";
 
 interface BottomSheetProps {
   wordInfo: WordInfo | null;
   onClose: () => void;
+  language?: string; // Source language of the word, for playing it
+  status?: WordStatus; // Where the word stands in the vocabulary
+  onAction?: (action: WordAction) => void;
+  onExplain?: () => Promise<GrammarExplanation>; // Grammar of the word's sentence
 }
 
+const STATUS_LABELS: Record<WordStatus, string> = {
+  unseen: "Not in vocabulary",
+  new: "New",
+  learning: "Learning",
+  review: "In review",
+  mastered: "Known",
+  ignored: "Ignored",
+};
+
+const actionButtonClass =
+  "px-3 py-1.5 text-sm font-medium border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
 export const BottomSheet: React.FC<BottomSheetProps> = ({
   wordInfo,
   onClose,
+  language,
+  status,
+  onAction,
+  onExplain,
 }) => {
   if (!wordInfo) return null;
 
+  const studying =
+    status === "new" || status === "learning" || status === "review";
+
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-white dark:bg-gray-950 border-t-2 border-gray-200 dark:border-gray-800 shadow-2xl z-40 pointer-events-auto">
       <div className="p-6 max-w-2xl mx-auto">
@@ -39,11 +67,34 @@ export const BottomSheet: React.FC<BottomSheetProps> = ({
         <div className="space-y-4">
           <div>
             <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">
-              Word
+              {wordInfo.isPhrase ? "Expression" : "Word"}
+              {status && (
+                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-[#E8D5C4] dark:bg-[#3E2E22] text-[#7A5639] dark:text-[#D4A574]">
+                  {STATUS_LABELS[status]}
+                </span>
+              )}
             </h3>
             <p className="text-2xl font-bold text-gray-900 dark:text-white">
               {wordInfo.word}
+              {language && (
+                <SpeakButton
+                  text={wordInfo.word}
+                  language={language}
+                  className="ml-2 text-xl align-middle"
+                />
+              )}
             </p>
+            {(wordInfo.lemma || wordInfo.grammar) && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                {wordInfo.lemma &&
+                  wordInfo.lemma.toLowerCase() !==
+                    wordInfo.word.toLowerCase() && (
+                    <span className="font-medium">{wordInfo.lemma} · </span>
+                  )}
+                {wordInfo.grammar &&
+                  Object.values(wordInfo.grammar).filter(Boolean).join(", ")}
+              </p>
+            )}
           </div>
 
           <div>
@@ -63,6 +114,45 @@ export const BottomSheet: React.FC<BottomSheetProps> = ({
               {wordInfo.sentenceTranslation}
             </p>
           </div>
+
+          {onExplain && (
+            <SentenceExplanation
+              key={wordInfo.sentenceTranslation}
+              onExplain={onExplain}
+            />
+          )}
+
+          {status && onAction && (
+            <div className="flex flex-wrap gap-2 pt-2">
+              <button
+                onClick={() => onAction("study")}
+                disabled={studying}
+                className={actionButtonClass}
+              >
+                {studying ? "Studying" : "Add to study"}
+              </button>
+              <button
+                onClick={() => onAction("known")}
+                disabled={status === "mastered"}
+                className={actionButtonClass}
+              >
+                Mark known
+              </button>
+              <button
+                onClick={() => onAction("ignore")}
+                className={actionButtonClass}
+              >
+                {status === "ignored" ? "Stop ignoring" : "Ignore"}
+              </button>
+              <button
+                onClick={() => onAction("remove")}
+                disabled={status === "unseen"}
+                className="px-3 py-1.5 text-sm font-medium border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Remove
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,364 @@
+import React, { useState, useEffect } from "react";
+import { DeckSettings, ReviewCardType, VocabWord } from "../types";
+import { indexedDBService } from "../services/indexedDB";
+import {
+  DEFAULT_DECK_OPTIONS,
+  DeckOptions,
+  bookDeckId,
+  defaultDeck,
+  languageDeckId,
+} from "../services/decks";
+import { FsrsOptimizerPanel } from "./FsrsOptimizerPanel";
+import {
+  CARD_TYPES,
+  CARD_TYPE_LABELS,
+  DEFAULT_CARD_TYPES,
+} from "../utils/cardTypes";
+import { isSpeechSupported } from "../services/speech";
+
+interface DeckSettingsDialogProps {
+  language: string; // "all" offers the decks of every language
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Same units ts-fsrs accepts: minutes, hours or days
+const STEP_PATTERN = /^\d+(\.\d+)?[mhd]$/;
+
+interface DeckForm {
+  retentionPercent: string;
+  maximumInterval: string;
+  newCardsPerDay: string;
+  reviewsPerDay: string;
+  learningSteps: string;
+  masteryInterval: string;
+  weights?: number[];
+  cardTypes: ReviewCardType[];
+}
+
+const toForm = (options: DeckOptions): DeckForm => ({
+  retentionPercent: String(Math.round(options.desiredRetention * 100)),
+  maximumInterval: String(options.maximumInterval),
+  newCardsPerDay: String(options.newCardsPerDay),
+  reviewsPerDay: String(options.reviewsPerDay),
+  learningSteps: options.learningSteps.join(" "),
+  masteryInterval: String(options.masteryInterval),
+  weights: options.weights,
+  cardTypes: options.cardTypes || DEFAULT_CARD_TYPES,
+});
+
+interface DeckChoice {
+  id: string;
+  language: string;
+  bookId?: string;
+  label: string;
+}
+
+// Saved settings of a deck, else those it inherits
+const formFor = (decks: DeckSettings[], choice: DeckChoice): DeckForm =>
+  toForm(
+    decks.find((d) => d.id === choice.id) ||
+      decks.find((d) => d.id === languageDeckId(choice.language)) ||
+      defaultDeck(choice.language)
+  );
+
+export const DeckSettingsDialog: React.FC<DeckSettingsDialogProps> = ({
+  language,
+  onClose,
+  onSaved,
+}) => {
+  const [decks, setDecks] = useState<DeckSettings[]>([]);
+  const [choices, setChoices] = useState<DeckChoice[]>([]);
+  const [deckId, setDeckId] = useState("");
+  const [form, setForm] = useState<DeckForm>(toForm(DEFAULT_DECK_OPTIONS));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      indexedDBService.getDeckSettings(),
+      indexedDBService.getBooks(),
+      language === "all"
+        ? indexedDBService.getVocabWords("all", true)
+        : Promise.resolve<VocabWord[]>([]),
+    ]).then(([saved, books, words]) => {
+      const languages =
+        language === "all"
+          ? Array.from(new Set(words.map((w) => w.language))).sort()
+          : [language];
+      const deckChoices: DeckChoice[] = languages.flatMap((lang) => [
+        {
+          id: languageDeckId(lang),
+          language: lang,
+          label: `All ${lang} words`,
+        },
+        ...books
+          .filter((book) => book.language === lang)
+          .map((book) => ({
+            id: bookDeckId(book.id),
+            language: lang,
+            bookId: book.id,
+            label: `${book.title} (${lang})`,
+          })),
+      ]);
+
+      setDecks(saved);
+      setChoices(deckChoices);
+      if (deckChoices.length > 0) {
+        setDeckId(deckChoices[0].id);
+        setForm(formFor(saved, deckChoices[0]));
+      }
+    });
+  }, [language]);
+
+  const choice = choices.find((c) => c.id === deckId);
+  const savedDeck = decks.find((d) => d.id === deckId);
+
+  const selectDeck = (id: string) => {
+    const selected = choices.find((c) => c.id === id);
+    if (!selected) return;
+    setDeckId(id);
+    setForm(formFor(decks, selected));
+    setError(null);
+  };
+
+  const update = (changes: Partial<DeckForm>) =>
+    setForm({ ...form, ...changes });
+
+  const handleSave = async () => {
+    if (!choice) return;
+    const desiredRetention = Number(form.retentionPercent) / 100;
+    const numbers = [
+      form.maximumInterval,
+      form.newCardsPerDay,
+      form.reviewsPerDay,
+      form.masteryInterval,
+    ].map(Number);
+    const learningSteps = form.learningSteps.split(/[\s,]+/).filter(Boolean);
+
+    if (!(desiredRetention >= 0.7 && desiredRetention <= 0.99)) {
+      setError("Desired retention must be between 70% and 99%");
+      return;
+    }
+    if (numbers.some((n) => !Number.isInteger(n) || n < 0)) {
+      setError("Limits and intervals must be whole numbers");
+      return;
+    }
+    if (!learningSteps.every((step) => STEP_PATTERN.test(step))) {
+      setError("Learning steps look like 1m 10m 1h 1d");
+      return;
+    }
+    if (form.cardTypes.length === 0) {
+      setError("Choose at least one card type");
+      return;
+    }
+
+    const [maximumInterval, newCardsPerDay, reviewsPerDay, masteryInterval] =
+      numbers;
+    await indexedDBService.saveDeckSettings({
+      id: choice.id,
+      language: choice.language,
+      ...(choice.bookId ? { bookId: choice.bookId } : {}),
+      desiredRetention,
+      maximumInterval: Math.max(1, maximumInterval),
+      newCardsPerDay,
+      reviewsPerDay,
+      learningSteps,
+      masteryInterval: Math.max(1, masteryInterval),
+      cardTypes: CARD_TYPES.filter((t) => form.cardTypes.includes(t)),
+      // Book decks use the weights fitted for their language
+      ...(form.weights && !choice.bookId ? { weights: form.weights } : {}),
+    });
+    onSaved();
+    onClose();
+  };
+
+  const handleReset = async () => {
+    if (savedDeck) {
+      await indexedDBService.deleteDeckSettings(deckId);
+      onSaved();
+    }
+    onClose();
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg text-sm outline-none";
+  const labelClass =
+    "block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1";
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-40"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 flex items-center justify-center z-50 p-4 pointer-events-none">
+        <div className="bg-white dark:bg-gray-950 rounded-2xl shadow-2xl max-w-md w-full p-6 pointer-events-auto max-h-full overflow-y-auto">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+            Deck Options
+          </h2>
+
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass}>Deck</label>
+              <select
+                value={deckId}
+                onChange={(e) => selectDeck(e.target.value)}
+                className={inputClass}
+              >
+                {choices.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {savedDeck
+                  ? "Custom settings"
+                  : !choice?.bookId
+                  ? "Using the defaults"
+                  : `Using the ${choice.language} settings`}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>New cards/day</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.newCardsPerDay}
+                  onChange={(e) => update({ newCardsPerDay: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Reviews/day</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.reviewsPerDay}
+                  onChange={(e) => update({ reviewsPerDay: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>Desired retention (%)</label>
+                <input
+                  type="number"
+                  min={70}
+                  max={99}
+                  value={form.retentionPercent}
+                  onChange={(e) =>
+                    update({ retentionPercent: e.target.value })
+                  }
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Maximum interval (days)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.maximumInterval}
+                  onChange={(e) => update({ maximumInterval: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Learning steps</label>
+              <input
+                type="text"
+                value={form.learningSteps}
+                onChange={(e) => update({ learningSteps: e.target.value })}
+                placeholder="1m 10m"
+                className={inputClass}
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Mastered after (days)</label>
+              <input
+                type="number"
+                min={1}
+                value={form.masteryInterval}
+                onChange={(e) => update({ masteryInterval: e.target.value })}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                A word counts as mastered once its interval reaches this many
+                days
+              </p>
+            </div>
+
+            <div>
+              <label className={labelClass}>Card types</label>
+              <div className="grid grid-cols-2 gap-2">
+                {CARD_TYPES.map((cardType) => (
+                  <label key={cardType} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.cardTypes.includes(cardType)}
+                      onChange={(e) =>
+                        update({
+                          cardTypes: e.target.checked
+                            ? [...form.cardTypes, cardType]
+                            : form.cardTypes.filter((t) => t !== cardType),
+                        })
+                      }
+                      className="rounded border-gray-300"
+                    />
+                    <span className="text-sm text-gray-700 dark:text-gray-300">
+                      {CARD_TYPE_LABELS[cardType]}
+                    </span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Each type is scheduled on its own. With sentence cards on, the
+                other types start after a word's first review.
+                {!isSpeechSupported() &&
+                  " This browser can't read sentences aloud, so listening cards are skipped."}
+              </p>
+            </div>
+
+            {choice && !choice.bookId && (
+              <FsrsOptimizerPanel
+                language={choice.language}
+                weights={form.weights}
+                onChange={(weights) => update({ weights })}
+              />
+            )}
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+          </div>
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={handleReset}
+              className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 dark:text-gray-300 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              {savedDeck ? "Reset" : "Cancel"}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!choice}
+              className="flex-1 py-2 px-4 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg font-medium hover:bg-[#7A5639] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useRef } from "react";
+import { indexedDBService } from "../services/indexedDB";
+import { runOptimizer } from "../services/fsrsOptimizer";
+import type { OptimizationResult } from "../utils/fsrsOptimizer";
+
+interface FsrsOptimizerPanelProps {
+  language: string;
+  weights?: number[];
+  onChange: (weights: number[] | undefined) => void;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const FsrsOptimizerPanel: React.FC<FsrsOptimizerPanelProps> = ({
+  language,
+  weights,
+  onChange,
+}) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop the worker if the dialog closes mid-run
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleOptimize = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setResult(null);
+    setError(null);
+
+    try {
+      const reviews = await indexedDBService.getWordReviews(language);
+      setResult(
+        await runOptimizer({ reviews, weights }, setProgress, controller.signal)
+      );
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Optimization failed");
+      }
+    } finally {
+      if (!controller.signal.aborted) setProgress(null);
+    }
+  };
+
+  const applied = result !== null && result.weights === weights;
+
+  return (
+    <div className="border-t border-gray-200 dark:border-gray-800 pt-4">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          FSRS weights
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {weights ? "Personalized" : "Defaults"}
+          {weights && (
+            <>
+              {" · "}
+              <button
+                onClick={() => onChange(undefined)}
+                className="text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671]"
+              >
+                Use defaults
+              </button>
+            </>
+          )}
+        </span>
+      </div>
+
+      {progress !== null ? (
+        <div>
+          <div className="w-full bg-gray-200 dark:bg-gray-800 rounded-full h-2">
+            <div
+              className="bg-[#9C7556] dark:bg-[#8B6F47] h-2 rounded-full transition-all"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Fitting weights to your {language} reviews…
+          </p>
+        </div>
+      ) : (
+        <button
+          onClick={handleOptimize}
+          className="w-full py-2 px-4 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+        >
+          Optimize from review history
+        </button>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>
+      )}
+
+      {result && (
+        <div className="mt-3 text-sm text-gray-700 dark:text-gray-300">
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            {result.reviewCount} reviews of {result.cardCount} words. You
+            remembered {percent(result.actualRetention)} of them.
+          </p>
+          <table className="w-full text-left">
+            <thead className="text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="font-normal"></th>
+                <th className="font-normal">Expected retention</th>
+                <th className="font-normal">Log loss</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Current</td>
+                <td>{percent(result.before.expectedRetention)}</td>
+                <td>{result.before.logLoss.toFixed(4)}</td>
+              </tr>
+              <tr>
+                <td>Optimized</td>
+                <td>{percent(result.after.expectedRetention)}</td>
+                <td>{result.after.logLoss.toFixed(4)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {result.after.logLoss < result.before.logLoss ? (
+            <button
+              onClick={() => onChange(result.weights)}
+              disabled={applied}
+              className="mt-3 w-full py-2 px-4 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg text-sm font-medium hover:bg-[#7A5639] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {applied ? "Applied; save to use them" : "Apply optimized weights"}
+            </button>
+          ) : (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              The current weights already fit your reviews best.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useRef } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AppSettings, PageData, PageEdit } from "../types";
+import { indexedDBService } from "../services/indexedDB";
+import { getMissingAICredentials } from "../services/ai";
+import {
+  countPendingTranslations,
+  draftFromOriginalText,
+  savePageEdit,
+} from "../services/pageEditor";
+import {
+  DraftParagraph,
+  cleanDraft,
+  draftFromPage,
+  draftToText,
+  mergeDraftParagraphWithNext,
+  mergeDraftSentenceWithNext,
+  splitDraftParagraph,
+  splitDraftSentence,
+  updateDraftSentence,
+} from "../utils/pageEdits";
+
+interface PageEditorProps {
+  page: PageData;
+  settings: AppSettings;
+  onSaved: (page: PageData) => void; // Also called with the restored page after an undo
+  onClose: () => void;
+}
+
+type EditorTab = "sentences" | "text";
+
+const toolButtonClass =
+  "px-2 py-1 text-xs text-gray-600 dark:text-gray-400 hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:bg-gray-100 dark:hover:bg-gray-800 rounded disabled:opacity-30 disabled:cursor-not-allowed";
+
+export const PageEditor: React.FC<PageEditorProps> = ({
+  page,
+  settings,
+  onSaved,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<DraftParagraph[]>(() =>
+    draftFromPage(page)
+  );
+  const [originalText, setOriginalText] = useState(page.originalText);
+  const [tab, setTab] = useState<EditorTab>("sentences");
+  const [edits, setEdits] = useState<PageEdit[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sentenceInputs = useRef(new Map<string, HTMLTextAreaElement>());
+
+  useEffect(() => {
+    indexedDBService.getPageEdits(page.id).then(setEdits);
+  }, [page.id]);
+
+  const pendingTranslations = countPendingTranslations(page, draft);
+  const sentenceTextChanged =
+    draftToText(cleanDraft(draft)) !== draftToText(draftFromPage(page));
+
+  const handleSplitSentence = (p: number, s: number) => {
+    const input = sentenceInputs.current.get(`${p}-${s}`);
+    if (!input) return;
+    setDraft(splitDraftSentence(draft, p, s, input.selectionStart));
+  };
+
+  const handleResplit = async () => {
+    if (
+      !window.confirm(
+        "Rebuild the sentences from the original text? Sentence edits you haven't saved will be lost."
+      )
+    ) {
+      return;
+    }
+
+    const missingCredentials = getMissingAICredentials(settings);
+    if (missingCredentials) {
+      setError(missingCredentials);
+      return;
+    }
+
+    setError(null);
+    setIsWorking(true);
+    try {
+      setDraft(await draftFromOriginalText(page, originalText, settings));
+      setTab("sentences");
+    } catch (err) {
+      console.error("Error splitting corrected text:", err);
+      setError(err instanceof Error ? err.message : "Splitting failed");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (pendingTranslations > 0) {
+      const missingCredentials = getMissingAICredentials(settings);
+      if (missingCredentials) {
+        setError(missingCredentials);
+        return;
+      }
+    }
+
+    // Corrections made sentence by sentence also fix the original text
+    const text =
+      originalText !== page.originalText || !sentenceTextChanged
+        ? originalText
+        : draftToText(cleanDraft(draft));
+
+    setError(null);
+    setIsWorking(true);
+    try {
+      const updated = await savePageEdit(page, draft, text, settings);
+      if (updated) {
+        onSaved(updated);
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      console.error("Error saving page edit:", err);
+      setError(err instanceof Error ? err.message : "Saving failed");
+      setIsWorking(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    setIsWorking(true);
+    try {
+      const restored = await indexedDBService.undoPageEdit(page.id);
+      if (restored) onSaved(restored);
+    } catch (err) {
+      console.error("Error undoing page edit:", err);
+      setError(err instanceof Error ? err.message : "Undo failed");
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto pb-32">
+      <div className="max-w-4xl mx-auto p-4 lg:p-8">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <div className="flex rounded-lg border border-gray-300 dark:border-gray-700 overflow-hidden text-sm">
+            {(["sentences", "text"] as EditorTab[]).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-4 py-2 ${
+                  tab === t
+                    ? "bg-[#9C7556] dark:bg-[#3E2E22] text-white"
+                    : "text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+                }`}
+              >
+                {t === "sentences" ? "Sentences" : "Original text"}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onClose}
+              disabled={isWorking}
+              className="py-2 px-4 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isWorking}
+              className="py-2 px-4 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg font-medium hover:bg-[#7A5639] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isWorking
+                ? "Working..."
+                : pendingTranslations > 0
+                ? `Save and translate ${pendingTranslations}`
+                : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {tab === "sentences" ? (
+          <div className="space-y-4">
+            {draft.map((paragraph, p) => (
+              <div
+                key={p}
+                className="border border-gray-200 dark:border-gray-700 rounded-lg p-3"
+              >
+                {paragraph.map((sentence, s) => (
+                  <div key={`${p}-${s}`} className="mb-3">
+                    <textarea
+                      ref={(el) => {
+                        if (el) sentenceInputs.current.set(`${p}-${s}`, el);
+                        else sentenceInputs.current.delete(`${p}-${s}`);
+                      }}
+                      value={sentence.text}
+                      onChange={(e) =>
+                        setDraft(
+                          updateDraftSentence(draft, p, s, {
+                            text: e.target.value,
+                          })
+                        )
+                      }
+                      rows={2}
+                      className="w-full px-3 py-2 text-gray-900 dark:text-white bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-[#9C7556] dark:focus:ring-[#8B6F47] outline-none resize-y"
+                    />
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                      <button
+                        onClick={() => handleSplitSentence(p, s)}
+                        className={toolButtonClass}
+                        title="Split the sentence at the cursor"
+                      >
+                        Split at cursor
+                      </button>
+                      <button
+                        onClick={() =>
+                          setDraft(mergeDraftSentenceWithNext(draft, p, s))
+                        }
+                        disabled={s === paragraph.length - 1}
+                        className={toolButtonClass}
+                      >
+                        Merge with next
+                      </button>
+                      <button
+                        onClick={() =>
+                          setDraft(splitDraftParagraph(draft, p, s + 1))
+                        }
+                        disabled={s === paragraph.length - 1}
+                        className={toolButtonClass}
+                      >
+                        New paragraph after
+                      </button>
+                      <label className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 dark:text-gray-400">
+                        <input
+                          type="checkbox"
+                          checked={!!sentence.retranslate}
+                          onChange={(e) =>
+                            setDraft(
+                              updateDraftSentence(draft, p, s, {
+                                retranslate: e.target.checked,
+                              })
+                            )
+                          }
+                          className="rounded border-gray-300"
+                        />
+                        Re-translate
+                      </label>
+                    </div>
+                  </div>
+                ))}
+                {p < draft.length - 1 && (
+                  <button
+                    onClick={() =>
+                      setDraft(mergeDraftParagraphWithNext(draft, p))
+                    }
+                    className={toolButtonClass}
+                  >
+                    Merge with next paragraph
+                  </button>
+                )}
+              </div>
+            ))}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Empty a sentence to remove it. Only new or changed sentences are
+              translated again, and saved words follow their sentence.
+            </p>
+          </div>
+        ) : (
+          <div>
+            <textarea
+              value={originalText}
+              onChange={(e) => setOriginalText(e.target.value)}
+              rows={16}
+              className="w-full px-3 py-2 text-gray-900 dark:text-white bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-[#9C7556] dark:focus:ring-[#8B6F47] outline-none font-mono text-sm"
+            />
+            <div className="flex items-center justify-between gap-4 mt-2">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Paragraphs are separated by a blank line.
+              </p>
+              <button
+                onClick={handleResplit}
+                disabled={isWorking || originalText === page.originalText}
+                className="py-2 px-4 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Rebuild sentences from text
+              </button>
+            </div>
+          </div>
+        )}
+
+        {edits.length > 0 && (
+          <div className="mt-8">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase">
+                Edit History
+              </h3>
+              <button
+                onClick={handleUndo}
+                disabled={isWorking}
+                className="text-sm text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium disabled:opacity-50"
+              >
+                Undo last edit
+              </button>
+            </div>
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+              {edits.map((edit) => (
+                <li
+                  key={edit.id}
+                  className="px-3 py-2 flex justify-between gap-4 text-sm"
+                >
+                  <span className="text-gray-900 dark:text-white">
+                    {edit.description}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">
+                    {formatDistanceToNow(edit.editedAt, { addSuffix: true })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
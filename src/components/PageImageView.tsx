@@ -0,0 +1,79 @@
+import React, { useEffect, useRef } from "react";
+import { BoundingBox, ParagraphLayout } from "../types";
+import { pageLines } from "../utils/layout";
+
+interface PageImageViewProps {
+  imageUrl: string;
+  layout?: ParagraphLayout[];
+  highlightedLines: number[]; // Indices into pageLines(layout)
+  onLineClick: (lineIndex: number) => void;
+}
+
+const boxStyle = (box: BoundingBox): React.CSSProperties => ({
+  left: `${box.x * 100}%`,
+  top: `${box.y * 100}%`,
+  width: `${box.width * 100}%`,
+  height: `${box.height * 100}%`,
+});
+
+// The page image with the OCR'd paragraphs outlined and clickable lines
+export const PageImageView: React.FC<PageImageViewProps> = ({
+  imageUrl,
+  layout,
+  highlightedLines,
+  onLineClick,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lines = layout ? pageLines(layout) : [];
+
+  useEffect(() => {
+    containerRef.current
+      ?.querySelector('[data-highlighted="true"]')
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [highlightedLines]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-full overflow-y-auto bg-gray-100 dark:bg-gray-900 p-4"
+    >
+      {!layout && (
+        <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+          This page was processed before text regions were recorded, so
+          sentences can't be located on the image.
+        </p>
+      )}
+      <div className="relative max-w-2xl mx-auto">
+        <img
+          src={imageUrl}
+          alt="Page"
+          className="block w-full h-auto rounded shadow"
+        />
+        {layout?.map((paragraph, i) => (
+          <div
+            key={`p-${i}`}
+            className="absolute border border-[#9C7556]/30 rounded-sm pointer-events-none"
+            style={boxStyle(paragraph.box)}
+          />
+        ))}
+        {lines.map((line, i) => {
+          const highlighted = highlightedLines.includes(i);
+          return (
+            <button
+              key={`l-${i}`}
+              onClick={() => onLineClick(i)}
+              data-highlighted={highlighted}
+              title={line.text}
+              className={`absolute rounded-sm transition-colors ${
+                highlighted
+                  ? "bg-amber-300/40 ring-2 ring-amber-500"
+                  : "hover:bg-[#E8D5C4]/50"
+              }`}
+              style={boxStyle(line.box)}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ interface PageUploadFormProps {
     language: string;
     bookId?: string;
     startingPageNumber?: number;
+    bypassTranslationCache?: boolean;
   }) => void;
   isProcessing: boolean;
   recentLanguages: string[];
@@ -33,6 +34,7 @@ export const PageUploadForm: React.FC<PageUploadFormProps> = ({
   const [customLanguage, setCustomLanguage] = useState<string>("");
   const [bookId, setBookId] = useState<string>(defaultBookId);
   const [pageNumber, setPageNumber] = useState<string>("");
+  const [bypassTranslationCache, setBypassTranslationCache] = useState(false);
   const [showNewBookForm, setShowNewBookForm] = useState(false);
   const [newBookTitle, setNewBookTitle] = useState("");
   const [newBookAuthor, setNewBookAuthor] = useState("");
@@ -93,6 +95,7 @@ export const PageUploadForm: React.FC<PageUploadFormProps> = ({
       language: selectedLanguage,
       bookId: finalBookId || undefined,
       startingPageNumber: pageNumber ? parseInt(pageNumber) : undefined,
+      bypassTranslationCache,
     });
 
     // Reset form (keeping defaults for language and book)
@@ -101,6 +104,7 @@ export const PageUploadForm: React.FC<PageUploadFormProps> = ({
     setCustomLanguage("");
     setBookId(defaultBookId);
     setPageNumber("");
+    setBypassTranslationCache(false);
     setShowNewBookForm(false);
     setNewBookTitle("");
     setNewBookAuthor("");
@@ -353,6 +357,19 @@ export const PageUploadForm: React.FC<PageUploadFormProps> = ({
                 />
               </div>
 
+              {/* Translation Cache */}
+              <label className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={bypassTranslationCache}
+                  onChange={(e) => setBypassTranslationCache(e.target.checked)}
+                  className="mt-1 rounded border-gray-300"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  Translate every sentence again, even ones translated before
+                </span>
+              </label>
+
               {/* Submit Button */}
               <button
                 onClick={handleSubmit}
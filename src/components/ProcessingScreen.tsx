@@ -1,93 +1,182 @@
 import React from "react";
+import { ProcessingJob, ProcessingJobStatus } from "../types";
 
 interface ProcessingScreenProps {
-  step: "extracting" | "splitting" | "translating" | "saving";
-  currentPage?: number;
-  totalPages?: number;
+  jobs: ProcessingJob[];
+  onRetry: (jobId: string) => void;
+  onDrop: (jobId: string) => void;
 }
 
-const steps = {
+const steps: Record<
+  ProcessingJobStatus,
+  { title: string; description: string; progress: number }
+> = {
+  queued: {
+    title: "Waiting",
+    description: "Waiting for the next page...",
+    progress: 5,
+  },
   extracting: {
     title: "Extracting Text",
     description: "Reading text from your image...",
     progress: 25,
   },
-  splitting: {
-    title: "Analyzing Sentences",
-    description: "Breaking text into sentences...",
-    progress: 40,
-  },
   translating: {
     title: "Translating Content",
-    description: "Translating sentences and words...",
+    description: "Splitting and translating sentences and words...",
     progress: 70,
   },
-  saving: {
-    title: "Saving Page",
+  saved: {
+    title: "Saved",
     description: "Almost done...",
-    progress: 95,
+    progress: 100,
+  },
+  failed: {
+    title: "Failed",
+    description: "Some pages could not be processed.",
+    progress: 100,
   },
 };
 
-export const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ 
-  step, 
-  currentPage, 
-  totalPages 
+const statusBadge: Record<ProcessingJobStatus, string> = {
+  queued: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  extracting:
+    "bg-[#E8D5C4] text-[#7A5639] dark:bg-[#3E2E22] dark:text-[#D4A574]",
+  translating:
+    "bg-[#E8D5C4] text-[#7A5639] dark:bg-[#3E2E22] dark:text-[#D4A574]",
+  saved:
+    "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+};
+
+export const ProcessingScreen: React.FC<ProcessingScreenProps> = ({
+  jobs,
+  onRetry,
+  onDrop,
 }) => {
-  const currentStep = steps[step];
+  const activeJob =
+    jobs.find((j) => j.status === "extracting" || j.status === "translating") ||
+    jobs.find((j) => j.status === "queued");
+  const finishedCount = jobs.filter(
+    (j) => j.status === "saved" || j.status === "failed"
+  ).length;
+  const currentStep = steps[activeJob ? activeJob.status : "failed"];
+  const currentPage = Math.min(finishedCount + 1, jobs.length);
 
   return (
-    <div className="flex flex-col items-center justify-center h-full p-8">
+    <div className="flex flex-col items-center justify-center min-h-full p-8">
       <div className="max-w-md w-full">
         {/* Page progress indicator */}
-        {currentPage && totalPages && totalPages > 1 && (
+        {jobs.length > 1 && (
           <div className="text-center mb-4">
             <div className="inline-block px-4 py-2 bg-[#E8D5C4] dark:bg-gray-800 rounded-full">
               <span className="text-sm font-semibold text-[#7A5639] dark:text-[#D4A574]">
-                Page {currentPage} of {totalPages}
+                Page {currentPage} of {jobs.length}
               </span>
             </div>
           </div>
         )}
 
         {/* Animated spinner */}
-        <div className="flex justify-center mb-8">
-          <div className="relative">
-            <div className="w-24 h-24 border-8 border-[#D4B89C] dark:border-gray-700 rounded-full"></div>
-            <div className="w-24 h-24 border-8 border-[#9C7556] dark:border-[#8B6F47] rounded-full animate-spin border-t-transparent absolute top-0 left-0"></div>
+        {activeJob && (
+          <div className="flex justify-center mb-8">
+            <div className="relative">
+              <div className="w-24 h-24 border-8 border-[#D4B89C] dark:border-gray-700 rounded-full"></div>
+              <div className="w-24 h-24 border-8 border-[#9C7556] dark:border-[#8B6F47] rounded-full animate-spin border-t-transparent absolute top-0 left-0"></div>
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Status text */}
         <div className="text-center mb-8">
           <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
             {currentStep.title}
           </h2>
-          <p className="text-gray-600 dark:text-gray-400">{currentStep.description}</p>
+          <p className="text-gray-600 dark:text-gray-400">
+            {currentStep.description}
+          </p>
         </div>
 
         {/* Progress bar */}
-        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 mb-4">
-          <div
-            className="bg-[#9C7556] dark:bg-[#8B6F47] h-3 rounded-full transition-all duration-500 ease-out"
-            style={{ width: `${currentStep.progress}%` }}
-          ></div>
-        </div>
+        {activeJob && (
+          <>
+            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-3 mb-4">
+              <div
+                className="bg-[#9C7556] dark:bg-[#8B6F47] h-3 rounded-full transition-all duration-500 ease-out"
+                style={{ width: `${currentStep.progress}%` }}
+              ></div>
+            </div>
 
-        {/* Progress percentage */}
-        <div className="text-center">
-          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-            {currentStep.progress}% Complete
-          </span>
-        </div>
+            <div className="text-center">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                {currentStep.progress}% Complete
+              </span>
+            </div>
+          </>
+        )}
+
+        {/* Per-image status */}
+        {jobs.length > 1 || jobs.some((j) => j.status === "failed") ? (
+          <ul className="mt-8 divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+            {jobs.map((job, i) => (
+              <li key={job.id} className="flex items-center gap-3 p-3">
+                <img
+                  src={job.imageDataUrl}
+                  alt={`Image ${i + 1}`}
+                  className="w-10 h-12 object-cover rounded flex-shrink-0"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white">
+                      {job.pageNumber ? `Page ${job.pageNumber}` : `Image ${i + 1}`}
+                    </span>
+                    <span
+                      className={`px-2 py-0.5 text-xs font-semibold rounded-full ${
+                        statusBadge[job.status]
+                      }`}
+                    >
+                      {job.status}
+                    </span>
+                  </div>
+                  {job.error && (
+                    <p className="text-xs text-red-600 dark:text-red-400 truncate">
+                      {job.status === "queued" && job.nextAttemptAt
+                        ? `Retrying (attempt ${job.attempts + 1}): `
+                        : ""}
+                      {job.error}
+                    </p>
+                  )}
+                </div>
+                {job.status === "failed" && (
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => onRetry(job.id)}
+                      className="text-sm text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => onDrop(job.id)}
+                      className="text-sm text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 font-medium"
+                    >
+                      Drop
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : null}
 
         {/* Info message */}
-        <div className="mt-8 p-4 bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-700 rounded-lg">
-          <p className="text-sm text-blue-800 dark:text-blue-200">
-            This may take a minute depending on the page length. Please don't
-            close this tab.
-          </p>
-        </div>
+        {activeJob && (
+          <div className="mt-8 p-4 bg-blue-50 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-700 rounded-lg">
+            <p className="text-sm text-blue-800 dark:text-blue-200">
+              This may take a minute depending on the page length. Progress is
+              saved, so processing resumes if you close or refresh this tab.
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,79 @@
+import React, { useState } from "react";
+import { GrammarExplanation } from "../types";
+
+interface SentenceExplanationProps {
+  onExplain: () => Promise<GrammarExplanation>;
+}
+
+// Token-by-token grammar of a sentence, fetched when asked for
+export const SentenceExplanation: React.FC<SentenceExplanationProps> = ({
+  onExplain,
+}) => {
+  const [explanation, setExplanation] = useState<GrammarExplanation | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExplain = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setExplanation(await onExplain());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Couldn't explain this");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!explanation) {
+    return (
+      <div>
+        <button
+          onClick={handleExplain}
+          disabled={loading}
+          className="text-sm text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium disabled:opacity-50"
+        >
+          {loading ? "Explaining…" : "Explain grammar"}
+        </button>
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400 mt-1">{error}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">
+        Grammar
+      </h3>
+      <div className="max-h-64 overflow-y-auto space-y-2 text-sm">
+        {explanation.summary && (
+          <p className="text-gray-700 dark:text-gray-300">
+            {explanation.summary}
+          </p>
+        )}
+        <dl className="space-y-1">
+          {explanation.tokens.map((token, i) => (
+            <div key={i}>
+              <dt className="inline font-semibold text-gray-900 dark:text-white">
+                {token.token}
+              </dt>
+              <dd className="inline text-gray-700 dark:text-gray-300">
+                {" "}
+                {[token.role, token.form].filter(Boolean).join(" · ")}
+              </dd>
+              {token.note && (
+                <dd className="text-gray-500 dark:text-gray-400">
+                  {token.note}
+                </dd>
+              )}
+            </div>
+          ))}
+        </dl>
+      </div>
+    </div>
+  );
+};
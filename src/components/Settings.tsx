@@ -1,7 +1,53 @@
-import React, { useState } from "react";
-import { AppSettings } from "../types";
-import { COMMON_LANGUAGES, DEFAULT_NATIVE_LANGUAGE } from "../constants";
+import React, { useEffect, useState } from "react";
+import {
+  AppSettings,
+  AIModelConfig,
+  AIOperation,
+  AIProviderType,
+  TranslationCacheStats,
+  VocabAddMode,
+} from "../types";
+import {
+  COMMON_LANGUAGES,
+  DEFAULT_NATIVE_LANGUAGE,
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_OPENAI_BASE_URL,
+} from "../constants";
 import { indexedDBService } from "../services/indexedDB";
+import { getAIModels } from "../services/ai";
+import { syncService } from "../services/sync";
+import { SpeechVoice, speechService } from "../services/speech";
+import {
+  MERGE_STORES,
+  MergeImportPlan,
+  MergeStoreName,
+  hasMergeChanges,
+} from "../services/mergeImport";
+
+const AI_OPERATIONS: { key: AIOperation; label: string }[] = [
+  { key: "extract", label: "Text extraction (OCR)" },
+  { key: "split", label: "Sentence splitting" },
+  { key: "translate", label: "Translation" },
+  { key: "explain", label: "Grammar explanations" },
+];
+
+const AI_PROVIDERS: { key: AIProviderType; label: string }[] = [
+  { key: "gemini", label: "Google Gemini" },
+  { key: "openai", label: "OpenAI-compatible" },
+  { key: "mock", label: "Offline mock" },
+];
+
+const MERGE_STORE_LABELS: Record<MergeStoreName, string> = {
+  pages: "Pages",
+  books: "Books",
+  vocab: "Vocabulary",
+  reviewSessions: "Review sessions",
+  wordReviews: "Reviews",
+  dailyStats: "Daily stats",
+};
+
+// Any voice says numbers in its own language, so they make a fair sample
+const VOICE_SAMPLE = "1, 2, 3, 4, 5";
 
 interface SettingsProps {
   settings: AppSettings;
@@ -18,22 +64,131 @@ export const Settings: React.FC<SettingsProps> = ({
   const [nativeLanguage, setNativeLanguage] = useState(
     settings.nativeLanguage || DEFAULT_NATIVE_LANGUAGE
   );
+  const [aiModels, setAiModels] = useState<Record<AIOperation, AIModelConfig>>(
+    getAIModels(settings)
+  );
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState(
+    settings.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL
+  );
+  const [openaiApiKey, setOpenaiApiKey] = useState(settings.openaiApiKey || "");
+  const [vocabAddMode, setVocabAddMode] = useState<VocabAddMode>(
+    settings.vocabAddMode || "sentence"
+  );
+  const [typedAnswers, setTypedAnswers] = useState(!!settings.typedAnswers);
+  const [speechVoices, setSpeechVoices] = useState<Record<string, string>>(
+    settings.speechVoices || {}
+  );
+  const [speechRate, setSpeechRate] = useState(settings.speechRate ?? 1);
+  const [installedVoices, setInstalledVoices] = useState<
+    Record<string, SpeechVoice[]>
+  >({});
+  const [cacheStats, setCacheStats] = useState<TranslationCacheStats | null>(
+    null
+  );
+  const [syncUrl, setSyncUrl] = useState(settings.syncUrl || "");
+  const [syncToken, setSyncToken] = useState(settings.syncToken || "");
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncStatus, setSyncStatus] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | undefined>();
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{
+    jsonData: string;
+    plan: MergeImportPlan;
+  } | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
   const handleSave = async () => {
     await onSaveSettings({
+      ...settings,
       apiKey: newApiKey,
       nativeLanguage,
-      recentLanguages: settings.recentLanguages,
-      selectedLanguage: settings.selectedLanguage,
-      darkMode: settings.darkMode,
+      aiModels,
+      openaiBaseUrl,
+      openaiApiKey,
+      syncUrl: syncUrl.trim(),
+      syncToken,
+      vocabAddMode,
+      typedAnswers,
+      speechVoices,
+      speechRate,
     });
     onClose();
   };
 
+  useEffect(() => {
+    syncService.getState().then((state) => setLastSyncedAt(state.lastSyncedAt));
+  }, []);
+
+  useEffect(() => {
+    indexedDBService.getTranslationCacheStats().then(setCacheStats);
+  }, []);
+
+  const handleClearTranslationCache = async () => {
+    await indexedDBService.clearTranslationCache();
+    setCacheStats(await indexedDBService.getTranslationCacheStats());
+  };
+
+  // Voices of the languages the user reads in
+  useEffect(() => {
+    Promise.all(
+      settings.recentLanguages.map(
+        async (language) =>
+          [language, await speechService.getVoices(language)] as const
+      )
+    ).then((entries) => setInstalledVoices(Object.fromEntries(entries)));
+  }, [settings.recentLanguages]);
+
+  const handleSyncNow = async () => {
+    try {
+      setIsSyncing(true);
+      setSyncStatus(null);
+      const result = await syncService.sync({
+        ...settings,
+        syncUrl: syncUrl.trim(),
+        syncToken,
+      });
+      setLastSyncedAt(Date.now());
+      setSyncStatus(
+        `Received ${result.pulled}, sent ${result.pushed}` +
+          (result.conflicts > 0
+            ? `, resolved ${result.conflicts} conflicts`
+            : "")
+      );
+    } catch (error) {
+      console.error("Error syncing:", error);
+      setSyncStatus(
+        `Sync failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleModelChange = (
+    operation: AIOperation,
+    changes: Partial<AIModelConfig>
+  ) => {
+    const updated = { ...aiModels[operation], ...changes };
+    // Reset the model name to something sensible when switching providers
+    if (changes.provider && changes.provider !== aiModels[operation].provider) {
+      updated.model =
+        changes.provider === "gemini"
+          ? DEFAULT_GEMINI_MODEL
+          : changes.provider === "mock"
+          ? "mock"
+          : "";
+    }
+    setAiModels({ ...aiModels, [operation]: updated });
+  };
+
+  const usesOpenAI = Object.values(aiModels).some(
+    (m) => m.provider === "openai"
+  );
+
   const handleExport = async () => {
     try {
       setIsExporting(true);
@@ -65,10 +220,10 @@ export const Settings: React.FC<SettingsProps> = ({
 
     try {
       setIsImporting(true);
-      const text = await file.text();
-      await indexedDBService.importAllData(text);
-      alert("Data imported successfully! The page will reload.");
-      window.location.reload();
+      const jsonData = await file.text();
+      // Show what a merge would change before writing anything
+      const plan = await indexedDBService.planMergeImport(jsonData);
+      setPendingImport({ jsonData, plan });
     } catch (error) {
       console.error("Error importing data:", error);
       alert(
@@ -83,6 +238,31 @@ export const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  const handleConfirmImport = async (mode: "merge" | "replace") => {
+    if (!pendingImport) return;
+
+    try {
+      setIsImporting(true);
+      if (mode === "merge") {
+        await indexedDBService.applyMergeImport(pendingImport.plan);
+      } else {
+        await indexedDBService.importAllData(pendingImport.jsonData);
+      }
+      alert("Data imported successfully! The page will reload.");
+      window.location.reload();
+    } catch (error) {
+      console.error("Error importing data:", error);
+      alert(
+        `Failed to import data: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setIsImporting(false);
+      setPendingImport(null);
+    }
+  };
+
   const handleDeleteAll = async () => {
     try {
       setIsDeleting(true);
@@ -158,6 +338,45 @@ export const Settings: React.FC<SettingsProps> = ({
                 </p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tapping a Word Adds
+                </label>
+                <select
+                  value={vocabAddMode}
+                  onChange={(e) =>
+                    setVocabAddMode(e.target.value as VocabAddMode)
+                  }
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-[#9C7556] dark:focus:ring-[#8B6F47] focus:border-[#9C7556] dark:focus:border-[#8B6F47] outline-none"
+                >
+                  <option value="sentence">Every word in the sentence</option>
+                  <option value="tapped">Only the tapped word</option>
+                </select>
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400 dark:text-gray-500">
+                  Words you already know can be marked as known from the word
+                  sheet.
+                </p>
+              </div>
+
+              <label className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={typedAnswers}
+                  onChange={(e) => setTypedAnswers(e.target.checked)}
+                  className="mt-1 rounded border-gray-300"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-700">
+                    Type answers in reviews
+                  </span>
+                  <span className="block text-sm text-gray-500 dark:text-gray-400">
+                    Spell the word before the card turns. Word-in-a-sentence
+                    cards play the word for you to write down. Missing accents
+                    like ë or ç suggest Hard.
+                  </span>
+                </span>
+              </label>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Google Gemini API Key
@@ -206,6 +425,223 @@ export const Settings: React.FC<SettingsProps> = ({
                 </div>
               </div>
 
+              {/* AI Models Section */}
+              <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  AI Models
+                </h3>
+
+                <div className="space-y-3">
+                  {AI_OPERATIONS.map(({ key, label }) => (
+                    <div key={key}>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        {label}
+                      </label>
+                      <div className="flex gap-2">
+                        <select
+                          value={aiModels[key].provider}
+                          onChange={(e) =>
+                            handleModelChange(key, {
+                              provider: e.target.value as AIProviderType,
+                            })
+                          }
+                          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg text-sm outline-none"
+                        >
+                          {AI_PROVIDERS.map((p) => (
+                            <option key={p.key} value={p.key}>
+                              {p.label}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={aiModels[key].model}
+                          onChange={(e) =>
+                            handleModelChange(key, { model: e.target.value })
+                          }
+                          disabled={aiModels[key].provider === "mock"}
+                          placeholder="Model name"
+                          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg text-sm outline-none disabled:opacity-50"
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {usesOpenAI && (
+                  <div className="mt-4 space-y-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        OpenAI-compatible Endpoint
+                      </label>
+                      <input
+                        type="text"
+                        value={openaiBaseUrl}
+                        onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                        placeholder={DEFAULT_OPENAI_BASE_URL}
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Endpoint API Key (optional)
+                      </label>
+                      <input
+                        type="password"
+                        value={openaiApiKey}
+                        onChange={(e) => setOpenaiApiKey(e.target.value)}
+                        placeholder="sk-..."
+                        className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg outline-none"
+                      />
+                    </div>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Works with OpenAI, llama.cpp server, Ollama and other
+                      servers exposing <code>/chat/completions</code>. Text
+                      extraction needs a vision-capable model.
+                    </p>
+                  </div>
+                )}
+
+                <div className="mt-4 flex items-center justify-between gap-4">
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {cacheStats
+                      ? `${cacheStats.entries} cached ${
+                          cacheStats.entries === 1
+                            ? "translation"
+                            : "translations"
+                        } · ${cacheStats.hits} reused · ${
+                          cacheStats.misses
+                        } sent to the model`
+                      : "Loading translation cache…"}
+                  </p>
+                  <button
+                    onClick={handleClearTranslationCache}
+                    disabled={!cacheStats}
+                    className="shrink-0 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    Clear cache
+                  </button>
+                </div>
+              </div>
+
+              {/* Speech Section */}
+              <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700 space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900">Speech</h3>
+                {settings.recentLanguages.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Voices can be picked here for each language you upload
+                    pages in.
+                  </p>
+                ) : (
+                  settings.recentLanguages.map((language) => {
+                    const voices = installedVoices[language] || [];
+                    return (
+                      <div key={language}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {language} voice
+                        </label>
+                        {voices.length === 0 ? (
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            No {language} voice is installed on this device,
+                            so {language} text can't be played.
+                          </p>
+                        ) : (
+                          <div className="flex gap-2">
+                            <select
+                              value={speechVoices[language] || ""}
+                              onChange={(e) =>
+                                setSpeechVoices({
+                                  ...speechVoices,
+                                  [language]: e.target.value,
+                                })
+                              }
+                              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg text-sm outline-none"
+                            >
+                              <option value="">Default</option>
+                              {voices.map((voice) => (
+                                <option key={voice.id} value={voice.id}>
+                                  {voice.name} ({voice.lang})
+                                </option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() =>
+                                speechService.speak(VOICE_SAMPLE, language, {
+                                  voiceId: speechVoices[language] || undefined,
+                                  rate: speechRate,
+                                })
+                              }
+                              className="px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors"
+                              aria-label={`Try the ${language} voice`}
+                            >
+                              🔊
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Speaking rate: {speechRate.toFixed(1)}×
+                  </label>
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={1.5}
+                    step={0.1}
+                    value={speechRate}
+                    onChange={(e) => setSpeechRate(Number(e.target.value))}
+                    className="w-full accent-[#9C7556]"
+                  />
+                </div>
+              </div>
+
+              {/* Sync Section */}
+              <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700 space-y-4">
+                <h3 className="text-lg font-semibold text-gray-900">Sync</h3>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Sync server URL
+                  </label>
+                  <input
+                    type="url"
+                    value={syncUrl}
+                    onChange={(e) => setSyncUrl(e.target.value)}
+                    placeholder="http://localhost:8787"
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-[#9C7556] dark:focus:ring-[#8B6F47] focus:border-[#9C7556] dark:focus:border-[#8B6F47] outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Sync token (optional)
+                  </label>
+                  <input
+                    type="password"
+                    value={syncToken}
+                    onChange={(e) => setSyncToken(e.target.value)}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-[#9C7556] dark:focus:ring-[#8B6F47] focus:border-[#9C7556] dark:focus:border-[#8B6F47] outline-none"
+                  />
+                </div>
+                <button
+                  onClick={handleSyncNow}
+                  disabled={isSyncing || !syncUrl.trim()}
+                  className="w-full px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg font-medium hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isSyncing ? "Syncing..." : "Sync Now"}
+                </button>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {syncStatus ||
+                    (lastSyncedAt
+                      ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}`
+                      : "Not synced yet.")}{" "}
+                  Pages, books, vocabulary and review history sync when the
+                  app opens. Run your own server with{" "}
+                  <code>npm run sync-server</code>.
+                </p>
+              </div>
+
               {/* Data Management Section */}
               <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">
@@ -260,6 +696,84 @@ export const Settings: React.FC<SettingsProps> = ({
                     />
                   </label>
 
+                  {/* Import Preview */}
+                  {pendingImport && (
+                    <div className="bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-lg p-4">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+                        Merging this backup would change:
+                      </p>
+                      <table className="w-full text-sm mb-3">
+                        <thead>
+                          <tr className="text-xs text-gray-500 dark:text-gray-400 uppercase">
+                            <th className="text-left font-medium py-1"></th>
+                            <th className="text-right font-medium py-1">Added</th>
+                            <th className="text-right font-medium py-1">
+                              Updated
+                            </th>
+                            <th className="text-right font-medium py-1">
+                              Conflicts
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="text-gray-700 dark:text-gray-300">
+                          {MERGE_STORES.map((store) => {
+                            const summary = pendingImport.plan.summary[store];
+                            return (
+                              <tr key={store}>
+                                <td className="py-1">
+                                  {MERGE_STORE_LABELS[store]}
+                                </td>
+                                <td className="text-right py-1">
+                                  {summary.added}
+                                </td>
+                                <td className="text-right py-1">
+                                  {summary.updated}
+                                </td>
+                                <td
+                                  className={`text-right py-1 ${
+                                    summary.conflicted > 0
+                                      ? "text-amber-600 font-medium"
+                                      : ""
+                                  }`}
+                                >
+                                  {summary.conflicted}
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                        Conflicting words keep the most recently reviewed card.
+                        Pages keep the newer copy; other records keep yours.
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setPendingImport(null)}
+                          className="flex-1 px-3 py-2 border border-gray-300 text-gray-700 dark:text-gray-300 rounded-lg text-sm font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleConfirmImport("replace")}
+                          disabled={isImporting}
+                          className="flex-1 px-3 py-2 border border-red-300 text-red-700 rounded-lg text-sm font-medium hover:bg-red-50 transition-colors disabled:opacity-50"
+                        >
+                          Replace All
+                        </button>
+                        <button
+                          onClick={() => handleConfirmImport("merge")}
+                          disabled={
+                            isImporting || !hasMergeChanges(pendingImport.plan)
+                          }
+                          className="flex-1 px-3 py-2 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg text-sm font-medium hover:bg-[#7A5639] transition-colors disabled:opacity-50"
+                        >
+                          Merge
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Delete Button */}
                   {!showDeleteConfirm ? (
                     <button
@@ -309,7 +823,8 @@ export const Settings: React.FC<SettingsProps> = ({
 
                 <p className="mt-3 text-xs text-gray-500 dark:text-gray-400 dark:text-gray-500">
                   Export your data to back it up or transfer to another device.
-                  Import will replace all existing data.
+                  Import merges the backup with your data, or can replace it
+                  entirely.
                 </p>
               </div>
             </div>
@@ -187,6 +187,30 @@ export const Sidebar: React.FC<SidebarProps> = ({
             Books
           </button>
 
+          <button
+            onClick={() => handleNavigation("/search")}
+            className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg font-medium transition-colors ${
+              location.pathname === "/search"
+                ? "bg-[#E8D5C4] dark:bg-[#3E2E22] text-[#7A5639] dark:text-white"
+                : "text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+            }`}
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+              />
+            </svg>
+            Search
+          </button>
+
           <button
             onClick={() => handleNavigation("/vocab")}
             className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg font-medium transition-colors ${
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from "react";
+import { speechService } from "../services/speech";
+
+interface SpeakButtonProps {
+  text: string;
+  language: string;
+  label?: string; // Shown after the speaker icon
+  className?: string;
+}
+
+// Plays text in its language. Stays visible but disabled when the device has
+// no voice for the language, so it's clear why nothing plays.
+export const SpeakButton: React.FC<SpeakButtonProps> = ({
+  text,
+  language,
+  label,
+  className = "text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671]",
+}) => {
+  const [canSpeak, setCanSpeak] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    speechService.canSpeak(language).then((available) => {
+      if (!cancelled) setCanSpeak(available);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [language]);
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        speechService.speak(text, language);
+      }}
+      disabled={!canSpeak}
+      title={canSpeak ? "Play" : `No ${language} voice on this device`}
+      aria-label={label || "Play"}
+      className={`${className} disabled:opacity-40 disabled:cursor-not-allowed`}
+    >
+      🔊{label && ` ${label}`}
+    </button>
+  );
+};
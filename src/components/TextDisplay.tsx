@@ -1,5 +1,14 @@
-import React from "react";
-import { PageData, WordInfo } from "../types";
+import React, { useEffect, useRef, useState } from "react";
+import { PageData, PhraseInfo, Sentence, WordInfo } from "../types";
+import { segmentSentence } from "../utils/tokens";
+import { hashString } from "../utils/hash";
+import {
+  VocabLookup,
+  WordStatus,
+  getWordStatus,
+} from "../utils/comprehension";
+import { speechService } from "../services/speech";
+import { SpeakButton } from "./SpeakButton";
 
 interface TextDisplayProps {
   page: PageData;
@@ -8,76 +17,432 @@ interface TextDisplayProps {
     sentenceText: string,
     sentenceWords: Map<string, WordInfo>
   ) => void;
+  onPhraseSelect: (phrase: PhraseInfo, sentence: Sentence) => void;
   selectedWord: WordInfo | null;
+  highlightSentenceId?: string; // Scroll to and highlight this sentence
+  onSentenceClick?: (sentenceId: string) => void;
+  embedded?: boolean; // One page of a longer document that scrolls as a whole
+  vocabLookup?: VocabLookup; // Colors words by how well they're known
+  onReadToEnd?: () => void; // Called once per page when its end scrolls into view
 }
 
+// A range of tokens within one sentence, selected by dragging or long-pressing
+interface TokenSelection {
+  paragraphIdx: number;
+  sentenceIdx: number;
+  anchor: number;
+  focus: number;
+}
+
+const LONG_PRESS_MS = 450;
+
+const WORD_STATUS_CLASSES: Record<WordStatus, string> = {
+  unseen: "bg-sky-100 dark:bg-sky-900/40",
+  new: "bg-amber-200 dark:bg-amber-800/50",
+  learning: "bg-amber-100 dark:bg-amber-900/40",
+  review: "border-b border-dotted border-gray-400 dark:border-gray-600",
+  mastered: "",
+  ignored: "text-gray-500 dark:text-gray-400",
+};
+
+// Pick the largest expression lying entirely within the selected token range
+const findPhraseInRange = (
+  sentence: Sentence,
+  from: number,
+  to: number
+): PhraseInfo | null => {
+  const candidates = (sentence.phrases || []).filter((phrase) =>
+    phrase.tokenIndices.every((i) => i >= from && i <= to)
+  );
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, phrase) =>
+    phrase.tokenIndices.length > best.tokenIndices.length ? phrase : best
+  );
+};
+
 export const TextDisplay: React.FC<TextDisplayProps> = ({
   page,
   onWordClick,
+  onPhraseSelect,
   selectedWord,
+  highlightSentenceId,
+  onSentenceClick,
+  embedded = false,
+  vocabLookup,
+  onReadToEnd,
 }) => {
-  const handleWordClick = (word: string, sentence: any) => {
-    const cleanWord = word.toLowerCase().replace(/[.,!?;:"""'']/g, "");
-    const wordInfo = sentence.words.get(cleanWord);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const onReadToEndRef = useRef(onReadToEnd);
+  onReadToEndRef.current = onReadToEnd;
+  const [selection, setSelection] = useState<TokenSelection | null>(null);
+  const [activePhrase, setActivePhrase] = useState<{
+    paragraphIdx: number;
+    sentenceIdx: number;
+    tokenIndices: number[];
+  } | null>(null);
+  const pressRef = useRef<TokenSelection | null>(null); // Token under the pointer at press time
+  const selectingRef = useRef(false);
+  const suppressClickRef = useRef(false);
+  const longPressTimerRef = useRef<number | null>(null);
+  const [canSpeak, setCanSpeak] = useState(false);
+  // Sentence being read aloud, counted through the page's paragraphs
+  const [readingIndex, setReadingIndex] = useState<number | null>(null);
+
+  // Stop the page from scrolling while a touch selection is being extended
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (selectingRef.current) e.preventDefault();
+    };
+    container.addEventListener("touchmove", handleTouchMove, {
+      passive: false,
+    });
+    return () => container.removeEventListener("touchmove", handleTouchMove);
+  }, []);
+
+  useEffect(() => {
+    setSelection(null);
+    setActivePhrase(null);
+  }, [page.id]);
+
+  useEffect(() => {
+    let cancelled = false;
+    speechService.canSpeak(page.language).then((available) => {
+      if (!cancelled) setCanSpeak(available);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [page.language]);
+
+  // A page short enough to fit on screen counts as read straight away
+  useEffect(() => {
+    const end = endRef.current;
+    if (!end || !onReadToEndRef.current) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer.disconnect();
+          onReadToEndRef.current?.();
+        }
+      },
+      { root: embedded ? null : containerRef.current }
+    );
+    observer.observe(end);
+    return () => observer.disconnect();
+  }, [page.id, embedded]);
+
+  // Reading aloud ends with the page it reads
+  useEffect(() => {
+    setReadingIndex(null);
+    return () => speechService.stop();
+  }, [page.id]);
+
+  // Keep the sentence being read in view
+  useEffect(() => {
+    if (readingIndex === null) return;
+    containerRef.current
+      ?.querySelector("[data-reading]")
+      ?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [readingIndex]);
+
+  useEffect(() => {
+    if (!highlightSentenceId) return;
+    containerRef.current
+      ?.querySelector(`[data-sentence-id="${CSS.escape(highlightSentenceId)}"]`)
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [page.id, highlightSentenceId]);
+
+  const sentences = page.paragraphs.flatMap((p) => p.sentences);
+  const readingSentence =
+    readingIndex !== null ? sentences[readingIndex] : undefined;
+
+  // Reads from the given sentence to the end of the page, one at a time.
+  // Playing anything else (e.g. a single word) stops the reading.
+  const readAloud = (index: number) => {
+    if (index >= sentences.length) {
+      setReadingIndex(null);
+      return;
+    }
+    setReadingIndex(index);
+    speechService.speak(sentences[index].text, page.language, {
+      onEnd: () => readAloud(index + 1),
+      onInterrupt: () => setReadingIndex(null),
+    });
+  };
+
+  const stopReading = () => {
+    speechService.stop();
+    setReadingIndex(null);
+  };
+
+  const clearLongPress = () => {
+    if (longPressTimerRef.current !== null) {
+      window.clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
+  const handleWordClick = (key: string, sentence: Sentence) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+
+    const wordInfo = sentence.words.get(key);
 
     if (wordInfo) {
+      setActivePhrase(null);
       onWordClick(wordInfo, sentence.text, sentence.words);
     }
   };
 
+  const handlePointerDown = (
+    e: React.PointerEvent,
+    paragraphIdx: number,
+    sentenceIdx: number,
+    tokenIndex: number
+  ) => {
+    const press = { paragraphIdx, sentenceIdx, anchor: tokenIndex, focus: tokenIndex };
+    pressRef.current = press;
+    suppressClickRef.current = false;
+
+    // Touch needs a long press so that normal swipes keep scrolling the page
+    if (e.pointerType !== "mouse") {
+      clearLongPress();
+      longPressTimerRef.current = window.setTimeout(() => {
+        selectingRef.current = true;
+        setSelection(press);
+      }, LONG_PRESS_MS);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const press = pressRef.current;
+    if (!press) return;
+
+    const target = document
+      .elementFromPoint(e.clientX, e.clientY)
+      ?.closest<HTMLElement>("[data-token]");
+    if (!target) return;
+
+    const paragraphIdx = Number(target.dataset.paragraph);
+    const sentenceIdx = Number(target.dataset.sentence);
+    const tokenIndex = Number(target.dataset.token);
+    if (
+      paragraphIdx !== press.paragraphIdx ||
+      sentenceIdx !== press.sentenceIdx
+    ) {
+      return;
+    }
+
+    if (!selectingRef.current) {
+      if (e.pointerType !== "mouse") {
+        // Finger moved before the long press fired: the user is scrolling
+        if (tokenIndex !== press.anchor) {
+          clearLongPress();
+          pressRef.current = null;
+        }
+        return;
+      }
+      if (tokenIndex === press.anchor) return;
+      selectingRef.current = true;
+    }
+
+    setSelection({ ...press, focus: tokenIndex });
+  };
+
+  const handlePointerUp = () => {
+    clearLongPress();
+    const wasSelecting = selectingRef.current;
+    selectingRef.current = false;
+    pressRef.current = null;
+
+    if (!wasSelecting || !selection) {
+      setSelection(null);
+      return;
+    }
+
+    const from = Math.min(selection.anchor, selection.focus);
+    const to = Math.max(selection.anchor, selection.focus);
+    setSelection(null);
+
+    // A long press that never left the word falls through to a normal tap
+    if (from === to) return;
+
+    suppressClickRef.current = true;
+    const sentence =
+      page.paragraphs[selection.paragraphIdx].sentences[selection.sentenceIdx];
+    const phrase = findPhraseInRange(sentence, from, to);
+    if (phrase) {
+      setActivePhrase({
+        paragraphIdx: selection.paragraphIdx,
+        sentenceIdx: selection.sentenceIdx,
+        tokenIndices: phrase.tokenIndices,
+      });
+      onPhraseSelect(phrase, sentence);
+    }
+  };
+
+  const isTokenHighlighted = (
+    paragraphIdx: number,
+    sentenceIdx: number,
+    tokenIndex: number
+  ) => {
+    if (
+      selection &&
+      selection.paragraphIdx === paragraphIdx &&
+      selection.sentenceIdx === sentenceIdx
+    ) {
+      const from = Math.min(selection.anchor, selection.focus);
+      const to = Math.max(selection.anchor, selection.focus);
+      return tokenIndex >= from && tokenIndex <= to;
+    }
+    return (
+      !!activePhrase &&
+      selectedWord?.isPhrase === true &&
+      activePhrase.paragraphIdx === paragraphIdx &&
+      activePhrase.sentenceIdx === sentenceIdx &&
+      activePhrase.tokenIndices.includes(tokenIndex)
+    );
+  };
+
   return (
-    <div className="h-full overflow-y-auto pb-64">
+    <div
+      ref={containerRef}
+      className={embedded ? "" : "h-full overflow-y-auto pb-64"}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
       {/* Text Content - Continuous */}
       <div className="max-w-4xl mx-auto p-8">
+        {!embedded && (
+          <div className="flex justify-end -mt-4 mb-2">
+            <button
+              onClick={() =>
+                readingIndex === null ? readAloud(0) : stopReading()
+              }
+              disabled={!canSpeak}
+              title={
+                canSpeak ? undefined : `No ${page.language} voice on this device`
+              }
+              className="text-sm text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {readingIndex === null ? "🔊 Read page aloud" : "■ Stop reading"}
+            </button>
+          </div>
+        )}
         <div className="text-lg leading-relaxed text-gray-900 dark:text-gray-100 space-y-4">
           {page.paragraphs.map((paragraph, paragraphIdx) => (
             <p key={paragraphIdx}>
-              {paragraph.sentences.map((sentence, sentenceIdx) => (
-                <span key={`${paragraphIdx}-${sentenceIdx}`}>
-                  {sentence.text.split(/\s+/).map((word, wordIdx) => {
-                    const cleanWord = word
-                      .toLowerCase()
-                      .replace(/[.,!?;:"""'']/g, "");
-                    const hasInfo = sentence.words.has(cleanWord);
-                    const isSelected =
-                      selectedWord &&
-                      selectedWord.word.toLowerCase() === cleanWord &&
-                      selectedWord.sentenceTranslation === sentence.translation;
-
-                    return (
-                      <span key={`${paragraphIdx}-${sentenceIdx}-${wordIdx}`}>
+              {paragraph.sentences.map((sentence, sentenceIdx) => {
+                const sentenceId = hashString(sentence.text);
+                return (
+                  <span
+                    key={`${paragraphIdx}-${sentenceIdx}`}
+                    data-sentence-id={sentenceId}
+                    onClick={
+                      onSentenceClick
+                        ? () => onSentenceClick(sentenceId)
+                        : undefined
+                    }
+                    data-reading={sentence === readingSentence || undefined}
+                    className={
+                      sentenceId === highlightSentenceId ||
+                      sentence === readingSentence
+                        ? "bg-amber-100 dark:bg-[#3E2E22] rounded transition-colors"
+                        : ""
+                    }
+                  >
+                    {segmentSentence(sentence).map((segment, segmentIdx) => {
+                      if (!segment.key) {
+                        return (
+                          <span
+                            key={`${paragraphIdx}-${sentenceIdx}-${segmentIdx}`}
+                          >
+                            {segment.text}
+                          </span>
+                        );
+                      }
+
+                      const wordKey = segment.key;
+                      const tokenIndex = segment.tokenIndex;
+                      const isSelected =
+                        (selectedWord &&
+                          !selectedWord.isPhrase &&
+                          selectedWord.word.toLowerCase() === wordKey &&
+                          selectedWord.sentenceTranslation ===
+                            sentence.translation) ||
+                        (tokenIndex !== undefined &&
+                          isTokenHighlighted(
+                            paragraphIdx,
+                            sentenceIdx,
+                            tokenIndex
+                          ));
+
+                      const wordInfo = sentence.words.get(wordKey);
+                      const statusClass =
+                        vocabLookup && wordInfo
+                          ? WORD_STATUS_CLASSES[
+                              getWordStatus(wordInfo, vocabLookup)
+                            ]
+                          : WORD_STATUS_CLASSES.review;
+
+                      return (
                         <span
-                          onClick={() =>
-                            hasInfo && handleWordClick(word, sentence)
-                          }
-                          className={
-                            hasInfo
-                              ? `cursor-pointer hover:bg-[#E8D5C4] dark:hover:bg-[#3E2E22] px-1 py-0.5 rounded transition-colors border-b border-dotted border-gray-400 dark:border-gray-600 ${
-                                  isSelected
-                                    ? "bg-[#E8D5C4] dark:bg-[#3E2E22]"
-                                    : ""
-                                }`
-                              : ""
+                          key={`${paragraphIdx}-${sentenceIdx}-${segmentIdx}`}
+                          onClick={() => handleWordClick(wordKey, sentence)}
+                          onPointerDown={
+                            tokenIndex !== undefined
+                              ? (e) =>
+                                  handlePointerDown(
+                                    e,
+                                    paragraphIdx,
+                                    sentenceIdx,
+                                    tokenIndex
+                                  )
+                              : undefined
                           }
+                          data-token={tokenIndex}
+                          data-paragraph={paragraphIdx}
+                          data-sentence={sentenceIdx}
+                          className={`cursor-pointer select-none hover:bg-[#E8D5C4] dark:hover:bg-[#3E2E22] px-1 py-0.5 rounded transition-colors ${
+                            isSelected
+                              ? "bg-[#E8D5C4] dark:bg-[#3E2E22]"
+                              : statusClass
+                          }`}
                         >
-                          {word}
+                          {segment.text}
                         </span>
-                        {wordIdx < sentence.text.split(/\s+/).length - 1 && " "}
-                      </span>
-                    );
-                  })}{" "}
-                </span>
-              ))}
+                      );
+                    })}
+                    {selectedWord?.sentenceTranslation ===
+                      sentence.translation && (
+                      <SpeakButton
+                        text={sentence.text}
+                        language={page.language}
+                        className="ml-1 text-base"
+                      />
+                    )}{" "}
+                  </span>
+                );
+              })}
             </p>
           ))}
         </div>
 
         {/* Page Number */}
-        {page.pageNumber && (
+        {page.pageNumber && !embedded && (
           <div className="mt-8 text-center text-gray-500 dark:text-gray-400 text-sm">
             Page {page.pageNumber}
           </div>
         )}
+        <div ref={endRef} />
       </div>
     </div>
   );
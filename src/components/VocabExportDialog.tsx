@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from "react";
+import { VocabWord } from "../types";
+import { indexedDBService } from "../services/indexedDB";
+import { DeckResolver, loadDeckResolver } from "../services/decks";
+import {
+  AnkiExportOptions,
+  ExportCardType,
+  ExportStatus,
+  buildAnkiDeck,
+  filterVocabForExport,
+} from "../services/ankiExport";
+
+interface VocabExportDialogProps {
+  selectedLanguage: string;
+  onClose: () => void;
+}
+
+export const VocabExportDialog: React.FC<VocabExportDialogProps> = ({
+  selectedLanguage,
+  onClose,
+}) => {
+  const [allWords, setAllWords] = useState<VocabWord[]>([]);
+  const [options, setOptions] = useState<AnkiExportOptions>({
+    language: selectedLanguage,
+    status: "active",
+    addedFrom: "",
+    addedTo: "",
+    includeScheduling: false,
+    cardType: "basic",
+  });
+
+  const [deckFor, setDeckFor] = useState<DeckResolver | undefined>();
+
+  useEffect(() => {
+    indexedDBService.getVocabWords("all", true).then(setAllWords);
+    loadDeckResolver().then((resolver) => setDeckFor(() => resolver));
+  }, []);
+
+  const languages = Array.from(new Set(allWords.map((w) => w.language))).sort();
+  const matchingCount = filterVocabForExport(
+    allWords,
+    options,
+    deckFor
+  ).length;
+
+  const update = (changes: Partial<AnkiExportOptions>) =>
+    setOptions({ ...options, ...changes });
+
+  const handleExport = () => {
+    const deck = buildAnkiDeck(allWords, options, deckFor);
+
+    // Create download
+    const blob = new Blob([deck], { type: "text/tab-separated-values" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `vocab-${
+      options.language === "all" ? "all" : options.language.replace(/\s+/g, "_")
+    }-${options.cardType}-${new Date().toISOString().split("T")[0]}.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg text-sm outline-none";
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-40"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 flex items-center justify-center z-50 p-4 pointer-events-none">
+        <div className="bg-white dark:bg-gray-950 rounded-2xl shadow-2xl max-w-md w-full p-6 pointer-events-auto">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+            Export to Anki
+          </h2>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Language
+              </label>
+              <select
+                value={options.language}
+                onChange={(e) => update({ language: e.target.value })}
+                className={inputClass}
+              >
+                <option value="all">All Languages</option>
+                {languages.map((lang) => (
+                  <option key={lang} value={lang}>
+                    {lang}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Words
+              </label>
+              <select
+                value={options.status}
+                onChange={(e) =>
+                  update({ status: e.target.value as ExportStatus })
+                }
+                className={inputClass}
+              >
+                <option value="active">Active (not ignored)</option>
+                <option value="mastered">Mastered only</option>
+                <option value="ignored">Ignored only</option>
+                <option value="all">All</option>
+              </select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Added from
+                </label>
+                <input
+                  type="date"
+                  value={options.addedFrom}
+                  onChange={(e) => update({ addedFrom: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Added to
+                </label>
+                <input
+                  type="date"
+                  value={options.addedTo}
+                  onChange={(e) => update({ addedTo: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Card type
+              </label>
+              <select
+                value={options.cardType}
+                onChange={(e) =>
+                  update({ cardType: e.target.value as ExportCardType })
+                }
+                className={inputClass}
+              >
+                <option value="basic">Word → meaning, with example</option>
+                <option value="cloze">Cloze from context sentences</option>
+              </select>
+            </div>
+
+            {options.cardType === "basic" && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={options.includeScheduling}
+                  onChange={(e) =>
+                    update({ includeScheduling: e.target.checked })
+                  }
+                  className="rounded border-gray-300"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  Include FSRS due date, stability and difficulty
+                </span>
+              </label>
+            )}
+
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {matchingCount} {matchingCount === 1 ? "word" : "words"} match.
+              The file is tab-separated; import it in Anki with File → Import.
+            </p>
+          </div>
+
+          <div className="flex space-x-3 mt-6">
+            <button
+              onClick={onClose}
+              className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 dark:text-gray-300 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={matchingCount === 0}
+              className="flex-1 py-2 px-4 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg font-medium hover:bg-[#7A5639] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,321 @@
+import React, { useState } from "react";
+import { COMMON_LANGUAGES } from "../constants";
+import { indexedDBService } from "../services/indexedDB";
+import {
+  ImportedWord,
+  ImportPreviewItem,
+  ImportSource,
+  KINDLE_LANGUAGE_CODES,
+  buildImportPreview,
+  importVocabWords,
+  parseDelimited,
+  parseKindleVocabDb,
+} from "../services/vocabImport";
+import { vocabKey } from "../utils/vocab";
+
+interface VocabImportDialogProps {
+  selectedLanguage: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+  csv: "CSV/TSV word list",
+  anki: "Anki text export",
+  kindle: "Kindle vocab.db",
+};
+
+export const VocabImportDialog: React.FC<VocabImportDialogProps> = ({
+  selectedLanguage,
+  onClose,
+  onImported,
+}) => {
+  const [language, setLanguage] = useState(
+    selectedLanguage === "all" ? "" : selectedLanguage
+  );
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [parsedWords, setParsedWords] = useState<ImportedWord[]>([]);
+  const [kindleCode, setKindleCode] = useState<string>("");
+  const [preview, setPreview] = useState<ImportPreviewItem[]>([]);
+  const [includeKnown, setIncludeKnown] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const kindleCodes = Array.from(
+    new Set(parsedWords.map((w) => w.languageCode || ""))
+  ).filter(Boolean);
+
+  const refreshPreview = async (
+    words: ImportedWord[],
+    targetLanguage: string,
+    code: string
+  ) => {
+    if (!targetLanguage) {
+      setPreview([]);
+      return;
+    }
+    const existing = await indexedDBService.getVocabWords(targetLanguage, true);
+    const existingKeys = new Set(
+      existing.map((w) => vocabKey(w.word, w.language))
+    );
+    const selected = code
+      ? words.filter((w) => w.languageCode === code)
+      : words;
+    setPreview(buildImportPreview(selected, targetLanguage, existingKeys));
+  };
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    setIsWorking(true);
+    try {
+      let words: ImportedWord[];
+      let detectedSource: ImportSource;
+      let code = "";
+      let targetLanguage = language;
+
+      if (file.name.toLowerCase().endsWith(".db")) {
+        words = await parseKindleVocabDb(await file.arrayBuffer());
+        detectedSource = "kindle";
+        code = words[0]?.languageCode || "";
+        targetLanguage = language || KINDLE_LANGUAGE_CODES[code] || "";
+      } else {
+        const parsed = parseDelimited(await file.text());
+        words = parsed.words;
+        detectedSource = parsed.source;
+      }
+
+      setSource(detectedSource);
+      setParsedWords(words);
+      setKindleCode(code);
+      setLanguage(targetLanguage);
+      await refreshPreview(words, targetLanguage, code);
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      setError(
+        `Could not read this file: ${
+          err instanceof Error ? err.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setIsWorking(false);
+      event.target.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const count = await importVocabWords(preview, language, includeKnown);
+      alert(`Imported ${count} ${count === 1 ? "word" : "words"}.`);
+      onImported();
+      onClose();
+    } catch (err) {
+      console.error("Error importing vocabulary:", err);
+      setError("Import failed. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const newCount = preview.filter((p) => p.status === "new").length;
+  const knownCount = preview.length - newCount;
+  const duplicateCount = preview.reduce((sum, p) => sum + p.duplicates, 0);
+  const importCount = includeKnown ? preview.length : newCount;
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg text-sm outline-none";
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-40"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 flex items-center justify-center z-50 p-4 pointer-events-none">
+        <div className="bg-white dark:bg-gray-950 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] flex flex-col pointer-events-auto">
+          <div className="p-6 pb-4 flex-shrink-0">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">
+              Import Vocabulary
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  File (CSV, TSV, Anki .txt or Kindle vocab.db)
+                </label>
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,.db"
+                  onChange={handleFileChange}
+                  disabled={isWorking}
+                  className="w-full text-sm text-gray-700 dark:text-gray-300"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Language
+                </label>
+                <select
+                  value={language}
+                  onChange={(e) => {
+                    setLanguage(e.target.value);
+                    refreshPreview(parsedWords, e.target.value, kindleCode);
+                  }}
+                  className={inputClass}
+                >
+                  <option value="">Select language...</option>
+                  {COMMON_LANGUAGES.map((lang) => (
+                    <option key={lang} value={lang}>
+                      {lang}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {source === "kindle" && kindleCodes.length > 1 && (
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Kindle book language
+                </label>
+                <select
+                  value={kindleCode}
+                  onChange={(e) => {
+                    setKindleCode(e.target.value);
+                    refreshPreview(parsedWords, language, e.target.value);
+                  }}
+                  className={inputClass}
+                >
+                  {kindleCodes.map((code) => (
+                    <option key={code} value={code}>
+                      {KINDLE_LANGUAGE_CODES[code] || code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {error && (
+              <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+                {error}
+              </p>
+            )}
+
+            {source && (
+              <p className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+                {SOURCE_LABELS[source]}:{" "}
+                <span className="font-semibold text-green-600">
+                  {newCount} new
+                </span>
+                ,{" "}
+                <span className="font-semibold">{knownCount} already known</span>
+                {duplicateCount > 0 &&
+                  `, ${duplicateCount} duplicate ${
+                    duplicateCount === 1 ? "row" : "rows"
+                  } merged`}
+              </p>
+            )}
+          </div>
+
+          {/* Preview */}
+          {preview.length > 0 && (
+            <div className="overflow-y-auto px-6 flex-1">
+              <table className="w-full">
+                <thead className="bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      Word
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      Meaning
+                    </th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                      Status
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {preview.map((item) => (
+                    <tr
+                      key={item.key}
+                      className={
+                        item.status === "known" && !includeKnown
+                          ? "opacity-50"
+                          : ""
+                      }
+                    >
+                      <td className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white">
+                        {item.word}
+                        {item.form && (
+                          <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">
+                            ({item.form})
+                          </span>
+                        )}
+                        {item.sentenceText && (
+                          <div className="text-xs font-normal text-gray-500 dark:text-gray-400 truncate max-w-xs">
+                            {item.sentenceText}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-600 dark:text-gray-400">
+                        {item.meaning || "—"}
+                      </td>
+                      <td className="px-3 py-2 text-xs">
+                        {item.status === "new" ? (
+                          <span className="text-green-600">New</span>
+                        ) : (
+                          <span className="text-gray-500 dark:text-gray-400">
+                            Known
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="p-6 pt-4 border-t border-gray-200 dark:border-gray-700 flex-shrink-0">
+            {knownCount > 0 && (
+              <label className="flex items-center gap-2 mb-4">
+                <input
+                  type="checkbox"
+                  checked={includeKnown}
+                  onChange={(e) => setIncludeKnown(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  Add the imported sentences to words I already know
+                </span>
+              </label>
+            )}
+            <div className="flex space-x-3">
+              <button
+                onClick={onClose}
+                className="flex-1 py-2 px-4 border border-gray-300 text-gray-700 dark:text-gray-300 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={isWorking || !language || importCount === 0}
+                className="flex-1 py-2 px-4 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg font-medium hover:bg-[#7A5639] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? "Working..." : `Import ${importCount}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -1,3 +1,5 @@
+import { AIModelConfig, AIOperation } from './types';
+
 export const COMMON_LANGUAGES = [
   'Albanian',
   'Arabic',
@@ -30,3 +32,46 @@ export const COMMON_LANGUAGES = [
 
 export const DEFAULT_NATIVE_LANGUAGE = 'English';
 
+// BCP 47 tags for speech synthesis
+export const LANGUAGE_CODES: Record<string, string> = {
+  Albanian: 'sq-AL',
+  Arabic: 'ar-SA',
+  'Chinese (Mandarin)': 'zh-CN',
+  Czech: 'cs-CZ',
+  Danish: 'da-DK',
+  Dutch: 'nl-NL',
+  English: 'en-US',
+  Finnish: 'fi-FI',
+  French: 'fr-FR',
+  German: 'de-DE',
+  Greek: 'el-GR',
+  Hebrew: 'he-IL',
+  Hindi: 'hi-IN',
+  Hungarian: 'hu-HU',
+  Italian: 'it-IT',
+  Japanese: 'ja-JP',
+  Korean: 'ko-KR',
+  Norwegian: 'nb-NO',
+  Polish: 'pl-PL',
+  Portuguese: 'pt-PT',
+  Romanian: 'ro-RO',
+  Russian: 'ru-RU',
+  Spanish: 'es-ES',
+  Swedish: 'sv-SE',
+  Thai: 'th-TH',
+  Turkish: 'tr-TR',
+  Ukrainian: 'uk-UA',
+  Vietnamese: 'vi-VN',
+};
+
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-pro-preview';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+export const DEFAULT_AI_MODELS: Record<AIOperation, AIModelConfig> = {
+  extract: { provider: 'gemini', model: DEFAULT_GEMINI_MODEL },
+  split: { provider: 'gemini', model: DEFAULT_GEMINI_MODEL },
+  translate: { provider: 'gemini', model: DEFAULT_GEMINI_MODEL },
+  explain: { provider: 'gemini', model: DEFAULT_GEMINI_MODEL },
+};
@@ -1,6 +1,7 @@
 import React from "react";
 import { useParams, Link, useNavigate } from "react-router-dom";
 import { Book, PageData } from "../types";
+import { getReadingStats } from "../utils/books";
 
 interface BookDetailPageProps {
   books: Book[];
@@ -47,6 +48,8 @@ export const BookDetailPage: React.FC<BookDetailPageProps> = ({
     );
   }
 
+  const readingStats = getReadingStats(book, bookPages);
+
   return (
     <div className="h-full overflow-y-auto">
       <div className="max-w-6xl mx-auto p-8">
@@ -94,7 +97,16 @@ export const BookDetailPage: React.FC<BookDetailPageProps> = ({
               </p>
               <p className="text-gray-600 dark:text-gray-400">
                 {bookPages.length} {bookPages.length === 1 ? "page" : "pages"}
+                {book.readingProgress && ` · ${readingStats.percent}% read`}
               </p>
+              {bookPages.length > 0 && (
+                <Link
+                  to={`/books/${book.id}/read`}
+                  className="inline-block mt-4 px-4 py-2 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg hover:bg-[#7A5639] dark:hover:bg-[#2C1F16] transition-colors font-medium text-sm"
+                >
+                  {book.readingProgress ? "Continue reading" : "Read book"}
+                </Link>
+              )}
             </div>
           </div>
         </div>
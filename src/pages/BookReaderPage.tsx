@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { TextDisplay } from "../components/TextDisplay";
+import {
+  Book,
+  PageData,
+  PhraseInfo,
+  ReadingProgress,
+  Sentence,
+  VocabWord,
+  WordInfo,
+} from "../types";
+import { DeckResolver } from "../services/decks";
+import { getBookPages, getReadingStats } from "../utils/books";
+import { buildVocabLookup, estimateCoverage } from "../utils/comprehension";
+
+interface BookReaderPageProps {
+  books: Book[];
+  pages: PageData[];
+  onWordClick: (
+    wordInfo: WordInfo,
+    pageId: string,
+    pageLanguage: string,
+    sentenceText: string,
+    sentenceWords: Map<string, WordInfo>
+  ) => void;
+  onPhraseSelect: (
+    phrase: PhraseInfo,
+    sentence: Sentence,
+    pageId: string,
+    pageLanguage: string
+  ) => void;
+  selectedWord: WordInfo | null;
+  onReadingProgress: (bookId: string, progress: ReadingProgress) => void;
+  vocabWords: VocabWord[];
+  deckFor?: DeckResolver;
+}
+
+// Distance below the top of the text where the reading position is taken
+const READING_LINE_PX = 48;
+const SAVE_DELAY_MS = 500;
+
+const pageSelector = (pageId: string) =>
+  `[data-page-id="${CSS.escape(pageId)}"]`;
+
+// All pages of a book as one scrolling document
+export const BookReaderPage: React.FC<BookReaderPageProps> = ({
+  books,
+  pages,
+  onWordClick,
+  onPhraseSelect,
+  selectedWord,
+  onReadingProgress,
+  vocabWords,
+  deckFor,
+}) => {
+  const { bookId } = useParams<{ bookId: string }>();
+  const book = books.find((b) => b.id === bookId);
+  const bookPages = useMemo(
+    () => (bookId ? getBookPages(pages, bookId) : []),
+    [pages, bookId]
+  );
+  const bookLanguage = book?.language;
+  const vocabLookup = useMemo(
+    () => buildVocabLookup(vocabWords, bookLanguage || "", deckFor),
+    [vocabWords, bookLanguage, deckFor]
+  );
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const restoredRef = useRef(false);
+  const saveTimerRef = useRef<number | null>(null);
+  const [currentPageId, setCurrentPageId] = useState<string | null>(null);
+
+  // Go back to where the reader left off, once the pages are there
+  useEffect(() => {
+    if (restoredRef.current || !book || bookPages.length === 0) return;
+    restoredRef.current = true;
+
+    const progress = book.readingProgress;
+    if (!progress || !bookPages.some((p) => p.id === progress.pageId)) return;
+
+    const container = scrollRef.current;
+    const target =
+      (progress.sentenceId &&
+        container?.querySelector(
+          `${pageSelector(progress.pageId)} [data-sentence-id="${CSS.escape(
+            progress.sentenceId
+          )}"]`
+        )) ||
+      container?.querySelector(pageSelector(progress.pageId));
+    target?.scrollIntoView({ block: "start" });
+    setCurrentPageId(progress.pageId);
+  }, [book, bookPages]);
+
+  useEffect(() => {
+    return () => {
+      if (saveTimerRef.current !== null) {
+        window.clearTimeout(saveTimerRef.current);
+      }
+    };
+  }, []);
+
+  if (!book) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+            Book not found
+          </h2>
+          <Link
+            to="/books"
+            className="text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium"
+          >
+            ← Back to Books
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (bookPages.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-gray-600 dark:text-gray-400 mb-4">
+            This book has no pages yet
+          </p>
+          <Link
+            to="/create-page"
+            className="inline-block px-4 py-2 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg hover:bg-[#7A5639] font-medium"
+          >
+            Add Page
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // The page and sentence at the reading line become the saved position, and
+  // every page whose end has been on screen counts as read
+  const savePosition = () => {
+    const container = scrollRef.current;
+    if (!container) return;
+
+    const bounds = container.getBoundingClientRect();
+    const readingLine = bounds.top + READING_LINE_PX;
+    const sections = Array.from(
+      container.querySelectorAll<HTMLElement>("[data-page-id]")
+    );
+    const current =
+      sections.find((s) => s.getBoundingClientRect().bottom > readingLine) ||
+      sections[sections.length - 1];
+    const pageId = current.dataset.pageId!;
+    const sentenceId = Array.from(
+      current.querySelectorAll<HTMLElement>("[data-sentence-id]")
+    ).find((s) => s.getBoundingClientRect().bottom > readingLine)?.dataset
+      .sentenceId;
+    const finished = sections
+      .filter((s) => s.getBoundingClientRect().bottom <= bounds.bottom)
+      .map((s) => s.dataset.pageId!);
+
+    setCurrentPageId(pageId);
+
+    const previous = book.readingProgress;
+    const readPageIds = Array.from(
+      new Set([...(previous?.readPageIds || []), ...finished])
+    );
+    if (
+      previous &&
+      previous.pageId === pageId &&
+      previous.sentenceId === sentenceId &&
+      previous.readPageIds.length === readPageIds.length
+    ) {
+      return;
+    }
+    onReadingProgress(book.id, {
+      pageId,
+      sentenceId,
+      readPageIds,
+      updatedAt: Date.now(),
+    });
+  };
+
+  const handleScroll = () => {
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = window.setTimeout(savePosition, SAVE_DELAY_MS);
+  };
+
+  const scrollToPage = (page: PageData) => {
+    scrollRef.current
+      ?.querySelector(pageSelector(page.id))
+      ?.scrollIntoView({ block: "start", behavior: "smooth" });
+  };
+
+  const stats = getReadingStats(book, bookPages);
+  const currentIndex = Math.max(
+    0,
+    bookPages.findIndex((p) => p.id === currentPageId)
+  );
+  const prevPage = currentIndex > 0 ? bookPages[currentIndex - 1] : null;
+  const nextPage =
+    currentIndex < bookPages.length - 1 ? bookPages[currentIndex + 1] : null;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-shrink-0 border-b border-gray-200 dark:border-gray-800">
+        <div className="max-w-4xl mx-auto px-8 py-3 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => prevPage && scrollToPage(prevPage)}
+              disabled={!prevPage}
+              className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:bg-gray-100 dark:hover:bg-gray-800 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Previous page"
+            >
+              ‹
+            </button>
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              Page {currentIndex + 1} of {bookPages.length}
+            </span>
+            <button
+              onClick={() => nextPage && scrollToPage(nextPage)}
+              disabled={!nextPage}
+              className="px-2 py-1 text-sm text-gray-600 dark:text-gray-400 hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:bg-gray-100 dark:hover:bg-gray-800 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+              title="Next page"
+            >
+              ›
+            </button>
+          </div>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {stats.read} of {stats.total}{" "}
+            {stats.total === 1 ? "page" : "pages"} read · {stats.percent}%
+          </span>
+        </div>
+        <div className="h-1 bg-gray-100 dark:bg-gray-800">
+          <div
+            className="h-full bg-[#9C7556] dark:bg-[#D4A574] transition-all"
+            style={{ width: `${stats.percent}%` }}
+          />
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="flex-1 min-h-0 overflow-y-auto pb-64"
+      >
+        {bookPages.map((page) => {
+          const coverage = estimateCoverage([page], vocabLookup);
+          return (
+            <section key={page.id} data-page-id={page.id}>
+              <div className="max-w-4xl mx-auto px-8 pt-6 flex items-center gap-3 text-sm text-gray-500 dark:text-gray-400">
+                <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+                <Link
+                  to={`/pages/${page.id}`}
+                  className="hover:text-[#9C7556] dark:hover:text-[#D4A574]"
+                  title="Open this page on its own"
+                >
+                  {page.pageNumber
+                    ? `Page ${page.pageNumber}`
+                    : "Unnumbered page"}
+                </Link>
+                {coverage.total > 0 && (
+                  <span>· {coverage.percent}% known</span>
+                )}
+                <div className="flex-1 border-t border-gray-200 dark:border-gray-700" />
+              </div>
+              <TextDisplay
+                page={page}
+                onWordClick={(wordInfo, sentenceText, sentenceWords) =>
+                  onWordClick(
+                    wordInfo,
+                    page.id,
+                    page.language,
+                    sentenceText,
+                    sentenceWords
+                  )
+                }
+                onPhraseSelect={(phrase, sentence) =>
+                  onPhraseSelect(phrase, sentence, page.id, page.language)
+                }
+                selectedWord={selectedWord}
+                embedded
+                vocabLookup={vocabLookup}
+              />
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
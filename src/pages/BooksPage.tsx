@@ -1,10 +1,22 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { Link } from "react-router-dom";
-import { Book } from "../types";
+import { Book, PageData, VocabWord } from "../types";
+import { DeckResolver } from "../services/decks";
 import { compressImage } from "../utils/imageCompression";
+import { isPageRead } from "../utils/books";
+import {
+  Coverage,
+  TARGET_COVERAGE,
+  buildVocabLookup,
+  compareForReading,
+  estimateCoverage,
+} from "../utils/comprehension";
 
 interface BooksPageProps {
   books: Book[];
+  pages: PageData[];
+  vocabWords: VocabWord[];
+  deckFor?: DeckResolver;
   onCreateBook: (book: Omit<Book, "id" | "createdAt">) => Promise<string>;
   onDeleteBook: (
     bookId: string,
@@ -14,8 +26,26 @@ interface BooksPageProps {
   getPageCountForBook: (bookId: string) => number;
 }
 
+interface UnreadPage {
+  page: PageData;
+  book?: Book; // Unset for pages that aren't part of a book
+  coverage: Coverage;
+}
+
+const SUGGESTION_LIMIT = 8;
+
+const difficultyLabel = (percent: number) =>
+  percent > TARGET_COVERAGE.max
+    ? "Easy"
+    : percent >= TARGET_COVERAGE.min
+    ? "Right level"
+    : "Hard";
+
 export const BooksPage: React.FC<BooksPageProps> = ({
   books,
+  pages,
+  vocabWords,
+  deckFor,
   onCreateBook,
   onDeleteBook,
   getPageCountForBook,
@@ -27,6 +57,32 @@ export const BooksPage: React.FC<BooksPageProps> = ({
   >("orphan");
   const [reassignBookId, setReassignBookId] = useState<string>("");
 
+  // Unread pages, in books or on their own, nearest the target coverage first
+  const unreadPages = useMemo(() => {
+    const booksById = new Map(books.map((b) => [b.id, b]));
+    const lookups = new Map(
+      Array.from(new Set(pages.map((p) => p.language))).map((language) => [
+        language,
+        buildVocabLookup(vocabWords, language, deckFor),
+      ])
+    );
+
+    return pages
+      .map((page): UnreadPage => {
+        const book = page.bookId ? booksById.get(page.bookId) : undefined;
+        return {
+          page,
+          book,
+          coverage: estimateCoverage([page], lookups.get(page.language)!),
+        };
+      })
+      .filter(
+        ({ page, book, coverage }) =>
+          coverage.total > 0 && !isPageRead(page, book)
+      )
+      .sort((a, b) => compareForReading(a.coverage, b.coverage));
+  }, [books, pages, vocabWords, deckFor]);
+
   const bookToDelete = books.find((b) => b.id === deleteBookId);
   const pagesCount = deleteBookId ? getPageCountForBook(deleteBookId) : 0;
 
@@ -59,6 +115,60 @@ export const BooksPage: React.FC<BooksPageProps> = ({
           </button>
         </div>
 
+        {/* Unread pages ranked by how close their known-word share is to the target */}
+        {unreadPages.length > 0 && (
+          <div className="mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              Read Next
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Unread pages where you already know {TARGET_COVERAGE.min}–
+              {TARGET_COVERAGE.max}% of the words come first
+            </p>
+            <div className="divide-y divide-gray-100 dark:divide-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+              {unreadPages
+                .slice(0, SUGGESTION_LIMIT)
+                .map(({ page, book, coverage }) => (
+                  <Link
+                    key={page.id}
+                    to={`/pages/${page.id}`}
+                    className="flex items-center gap-4 px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-900"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">
+                        {book?.title ||
+                          page.paragraphs[0]?.sentences[0]?.text ||
+                          "Empty page"}
+                      </p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {!book
+                          ? "Single page"
+                          : page.pageNumber
+                          ? `Page ${page.pageNumber}`
+                          : "Unnumbered page"}{" "}
+                        · {coverage.total} words
+                      </p>
+                    </div>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {difficultyLabel(coverage.percent)}
+                    </span>
+                    <div className="w-24 flex-shrink-0">
+                      <div className="text-sm text-right font-medium text-gray-900 dark:text-white">
+                        {coverage.percent}% known
+                      </div>
+                      <div className="h-1.5 mt-1 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-[#9C7556] dark:bg-[#D4A574]"
+                          style={{ width: `${coverage.percent}%` }}
+                        />
+                      </div>
+                    </div>
+                  </Link>
+                ))}
+            </div>
+          </div>
+        )}
+
         {/* Books Grid */}
         {books.length === 0 ? (
           <div className="text-center py-12">
@@ -9,6 +9,7 @@ interface CreatePagePageProps {
     language: string;
     bookId?: string;
     startingPageNumber?: number;
+    bypassTranslationCache?: boolean;
   }) => void;
   isProcessing: boolean;
   recentLanguages: string[];
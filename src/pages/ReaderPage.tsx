@@ -1,7 +1,24 @@
-import React from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
+import React, { useState, useEffect, useMemo } from "react";
+import { useParams, useNavigate, useLocation, Link } from "react-router-dom";
 import { TextDisplay } from "../components/TextDisplay";
-import { PageData, WordInfo } from "../types";
+import { PageEditor } from "../components/PageEditor";
+import { PageImageView } from "../components/PageImageView";
+import {
+  AppSettings,
+  PageData,
+  PhraseInfo,
+  Sentence,
+  VocabWord,
+  WordInfo,
+} from "../types";
+import { DeckResolver } from "../services/decks";
+import { mapSentencesToLines } from "../utils/layout";
+import { getBookPages } from "../utils/books";
+import {
+  buildVocabLookup,
+  estimateCoverage,
+  findUnseenWords,
+} from "../utils/comprehension";
 
 interface ReaderPageProps {
   pages: PageData[];
@@ -12,16 +29,57 @@ interface ReaderPageProps {
     sentenceText: string,
     sentenceWords: Map<string, WordInfo>
   ) => void;
+  onPhraseSelect: (
+    phrase: PhraseInfo,
+    sentence: Sentence,
+    pageId: string,
+    pageLanguage: string
+  ) => void;
   selectedWord: WordInfo | null;
+  settings: AppSettings;
+  onPageEdited: () => void;
+  vocabWords: VocabWord[];
+  deckFor?: DeckResolver;
+  onMarkUnseenKnown: (page: PageData) => void;
+  onPageRead: (page: PageData) => void;
+}
+
+// Router state for links that open a sentence from elsewhere, e.g. a review
+// card. The reader then offers a button back to where the user came from.
+export interface ReaderReturnState {
+  returnLabel: string;
 }
 
 export const ReaderPage: React.FC<ReaderPageProps> = ({
   pages,
   onWordClick,
+  onPhraseSelect,
   selectedWord,
+  settings,
+  onPageEdited,
+  vocabWords,
+  deckFor,
+  onMarkUnseenKnown,
+  onPageRead,
 }) => {
-  const { pageId } = useParams<{ pageId?: string }>();
+  const { pageId, sentenceId } = useParams<{
+    pageId?: string;
+    sentenceId?: string;
+  }>();
   const navigate = useNavigate();
+  const location = useLocation();
+  const returnState = location.state as ReaderReturnState | null;
+  const [editing, setEditing] = useState(false);
+  const [showImage, setShowImage] = useState(false);
+  const [activeSentenceId, setActiveSentenceId] = useState<string | null>(
+    null
+  );
+
+  // Leave edit mode when switching to another page
+  useEffect(() => {
+    setEditing(false);
+    setActiveSentenceId(null);
+  }, [pageId]);
 
   // If pageId is provided, find that page
   let currentPage: PageData | null = null;
@@ -29,6 +87,42 @@ export const ReaderPage: React.FC<ReaderPageProps> = ({
     currentPage = pages.find((p) => p.id === pageId) || null;
   }
 
+  const sentenceLines = useMemo(
+    () =>
+      currentPage?.layout
+        ? mapSentencesToLines(currentPage.paragraphs, currentPage.layout)
+        : new Map<string, number[]>(),
+    [currentPage]
+  );
+  const pageLanguage = currentPage?.language;
+  const vocabLookup = useMemo(
+    () => buildVocabLookup(vocabWords, pageLanguage || "", deckFor),
+    [vocabWords, pageLanguage, deckFor]
+  );
+  const coverage = useMemo(
+    () => (currentPage ? estimateCoverage([currentPage], vocabLookup) : null),
+    [currentPage, vocabLookup]
+  );
+  const unseenCount = useMemo(
+    () => (currentPage ? findUnseenWords(currentPage, vocabLookup).length : 0),
+    [currentPage, vocabLookup]
+  );
+  const highlightedLines = useMemo(
+    () => (activeSentenceId && sentenceLines.get(activeSentenceId)) || [],
+    [activeSentenceId, sentenceLines]
+  );
+
+  // Tapping a line again moves on to the next sentence printed on it
+  const handleLineClick = (lineIndex: number) => {
+    const onLine = Array.from(sentenceLines.entries())
+      .filter(([, lines]) => lines.includes(lineIndex))
+      .map(([id]) => id);
+    if (onLine.length === 0) return;
+
+    const current = activeSentenceId ? onLine.indexOf(activeSentenceId) : -1;
+    setActiveSentenceId(onLine[(current + 1) % onLine.length]);
+  };
+
   // Page not found
   if (pageId && !currentPage) {
     return (
@@ -111,19 +205,191 @@ export const ReaderPage: React.FC<ReaderPageProps> = ({
     );
   }
 
+  if (editing) {
+    return (
+      <PageEditor
+        key={currentPage.id}
+        page={currentPage}
+        settings={settings}
+        onSaved={() => {
+          onPageEdited();
+          setEditing(false);
+        }}
+        onClose={() => setEditing(false)}
+      />
+    );
+  }
+
+  const bookPages = currentPage.bookId
+    ? getBookPages(pages, currentPage.bookId)
+    : [];
+  const bookIndex = bookPages.findIndex((p) => p.id === currentPage?.id);
+  const prevPage = bookIndex > 0 ? bookPages[bookIndex - 1] : null;
+  const nextPage =
+    bookIndex >= 0 && bookIndex < bookPages.length - 1
+      ? bookPages[bookIndex + 1]
+      : null;
+
   return (
-    <TextDisplay
-      page={currentPage}
-      onWordClick={(wordInfo, sentenceText, sentenceWords) =>
-        onWordClick(
-          wordInfo,
-          currentPage.id,
-          currentPage.language,
-          sentenceText,
-          sentenceWords
-        )
-      }
-      selectedWord={selectedWord}
-    />
+    <div className="h-full flex flex-col">
+      <div className="flex-shrink-0 max-w-4xl w-full mx-auto px-8 pt-4 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          {returnState?.returnLabel && (
+            <button
+              onClick={() => navigate(-1)}
+              className="px-3 py-1.5 text-sm font-medium bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-full shadow hover:bg-[#7A5639] dark:hover:bg-[#2C1F16]"
+            >
+              ← {returnState.returnLabel}
+            </button>
+          )}
+          {bookPages.length > 1 && (
+            <div className="flex items-center gap-1 text-sm">
+              {prevPage ? (
+                <Link
+                  to={`/pages/${prevPage.id}`}
+                  className="px-2 py-1 text-gray-500 dark:text-gray-400 hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+                  title="Previous page"
+                >
+                  ‹ Prev
+                </Link>
+              ) : (
+                <span className="px-2 py-1 text-gray-300 dark:text-gray-600">
+                  ‹ Prev
+                </span>
+              )}
+              {nextPage ? (
+                <Link
+                  to={`/pages/${nextPage.id}`}
+                  className="px-2 py-1 text-gray-500 dark:text-gray-400 hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+                  title="Next page"
+                >
+                  Next ›
+                </Link>
+              ) : (
+                <span className="px-2 py-1 text-gray-300 dark:text-gray-600">
+                  Next ›
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {coverage && coverage.total > 0 && (
+            <span
+              className="px-3 py-1.5 text-sm text-gray-500 dark:text-gray-400"
+              title={`${coverage.known} of ${coverage.total} words on this page are in review, mastered or ignored.\nBlue: not seen yet · Yellow: new or learning · Underlined: in review · Plain: mastered`}
+            >
+              {coverage.percent}% known
+            </span>
+          )}
+          {unseenCount > 0 && (
+            <button
+              onClick={() => {
+                if (
+                  window.confirm(
+                    `Mark the ${unseenCount} words on this page that aren't in your vocabulary as known?`
+                  )
+                ) {
+                  onMarkUnseenKnown(currentPage);
+                }
+              }}
+              className="px-3 py-1.5 text-sm text-gray-500 dark:text-gray-400 hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg"
+              title="Words you haven't tapped go into your vocabulary as already known"
+            >
+              Mark unseen known
+            </button>
+          )}
+          {currentPage.imageDataUrl && (
+            <button
+              onClick={() => setShowImage(!showImage)}
+              className={`px-3 py-1.5 text-sm rounded-lg flex items-center gap-1 ${
+                showImage
+                  ? "text-[#9C7556] dark:text-[#D4A574] bg-[#E8D5C4]/50 dark:bg-[#3E2E22]"
+                  : "text-gray-500 dark:text-gray-400 hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:bg-gray-100 dark:hover:bg-gray-800"
+              }`}
+              title="Compare the text with the page image"
+            >
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                />
+              </svg>
+              Image
+            </button>
+          )}
+          <button
+            onClick={() => setEditing(true)}
+            className="px-3 py-1.5 text-sm text-gray-500 dark:text-gray-400 hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg flex items-center gap-1"
+            title="Correct the text or translation of this page"
+          >
+            <svg
+              className="w-4 h-4"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+              />
+            </svg>
+            Edit
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 flex flex-col lg:flex-row">
+        {showImage && currentPage.imageDataUrl && (
+          <div className="h-2/5 lg:h-auto lg:w-1/2 flex-shrink-0 border-b lg:border-b-0 lg:border-r border-gray-200 dark:border-gray-800">
+            <PageImageView
+              imageUrl={currentPage.imageDataUrl}
+              layout={currentPage.layout}
+              highlightedLines={highlightedLines}
+              onLineClick={handleLineClick}
+            />
+          </div>
+        )}
+        <div className="flex-1 min-h-0">
+          <TextDisplay
+            page={currentPage}
+            onWordClick={(wordInfo, sentenceText, sentenceWords) =>
+              onWordClick(
+                wordInfo,
+                currentPage.id,
+                currentPage.language,
+                sentenceText,
+                sentenceWords
+              )
+            }
+            onPhraseSelect={(phrase, sentence) =>
+              onPhraseSelect(
+                phrase,
+                sentence,
+                currentPage.id,
+                currentPage.language
+              )
+            }
+            selectedWord={selectedWord}
+            highlightSentenceId={
+              (showImage && activeSentenceId) || sentenceId
+            }
+            onSentenceClick={showImage ? setActiveSentenceId : undefined}
+            vocabLookup={vocabLookup}
+            onReadToEnd={
+              currentPage.readAt ? undefined : () => onPageRead(currentPage)
+            }
+          />
+        </div>
+      </div>
+    </div>
   );
 };
@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { indexedDBService } from "../services/indexedDB";
-import { WordReview } from "../types";
+import { VocabWord, WordReview } from "../types";
 import { format } from "date-fns";
+import { vocabKey } from "../utils/vocab";
+import { CARD_TYPE_LABELS } from "../utils/cardTypes";
+import type { ReaderReturnState } from "./ReaderPage";
 
 interface ReviewHistoryPageProps {
   selectedLanguage: string;
@@ -23,10 +27,48 @@ const getRatingColor = (rating: number): string => {
   return colors[rating] || "";
 };
 
+const STATE_LABELS = ["New", "Learning", "Review", "Relearning"];
+
+const formatDays = (days: number) =>
+  days < 1 ? `${Math.round(days * 24 * 10) / 10}h` : `${+days.toFixed(1)}d`;
+
+const formatChange = (
+  before: number | undefined,
+  after: number | undefined,
+  formatValue: (value: number) => string
+) =>
+  before && before !== after
+    ? `${formatValue(before)} → ${formatValue(after!)}`
+    : formatValue(after!);
+
+const returnState: ReaderReturnState = {
+  returnLabel: "Back to review history",
+};
+
+// The sentence shown when the word was reviewed; older reviews didn't record
+// it, so fall back to the latest context the word was seen in on a page
+const getContextLink = (
+  review: WordReview,
+  wordsByKey: Map<string, VocabWord>
+): string | null => {
+  if (review.pageId && review.sentenceId) {
+    return `/pages/${review.pageId}/s/${review.sentenceId}`;
+  }
+
+  const context = wordsByKey
+    .get(vocabKey(review.word, review.language))
+    ?.contexts.filter((c) => c.pageId)
+    .sort((a, b) => b.seenAt - a.seenAt)[0];
+  return context ? `/pages/${context.pageId}/s/${context.sentenceId}` : null;
+};
+
 export const ReviewHistoryPage: React.FC<ReviewHistoryPageProps> = ({
   selectedLanguage,
 }) => {
   const [reviews, setReviews] = useState<WordReview[]>([]);
+  const [wordsByKey, setWordsByKey] = useState<Map<string, VocabWord>>(
+    new Map()
+  );
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -35,8 +77,14 @@ export const ReviewHistoryPage: React.FC<ReviewHistoryPageProps> = ({
 
   const loadReviews = async () => {
     setLoading(true);
-    const data = await indexedDBService.getWordReviews(selectedLanguage, 100);
+    const [data, words] = await Promise.all([
+      indexedDBService.getWordReviews(selectedLanguage, 100),
+      indexedDBService.getVocabWords(selectedLanguage),
+    ]);
     setReviews(data);
+    setWordsByKey(
+      new Map(words.map((w) => [vocabKey(w.word, w.language), w]))
+    );
     setLoading(false);
   };
 
@@ -54,7 +102,7 @@ export const ReviewHistoryPage: React.FC<ReviewHistoryPageProps> = ({
         Review History
       </h1>
 
-      <div className="bg-white dark:bg-gray-950 rounded-lg shadow overflow-hidden">
+      <div className="bg-white dark:bg-gray-950 rounded-lg shadow overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
           <thead className="bg-gray-50 dark:bg-gray-900">
             <tr>
@@ -70,31 +118,119 @@ export const ReviewHistoryPage: React.FC<ReviewHistoryPageProps> = ({
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
                 Rating
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                State
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Stability
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Difficulty
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Elapsed
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Next In
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">
+                Time
+              </th>
             </tr>
           </thead>
           <tbody className="bg-white dark:bg-gray-950 divide-y divide-gray-200 dark:divide-gray-700">
-            {reviews.map((review) => (
-              <tr key={review.id}>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
-                  {format(new Date(review.date), "MMM dd, yyyy HH:mm")}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
-                  {review.word}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                  {review.language}
-                </td>
-                <td className="px-6 py-4 whitespace-nowrap">
-                  <span
-                    className={`px-2 py-1 text-xs font-semibold rounded-full ${getRatingColor(
-                      review.rating
-                    )}`}
-                  >
-                    {getRatingLabel(review.rating)}
-                  </span>
-                </td>
-              </tr>
-            ))}
+            {reviews.map((review) => {
+              const contextLink = getContextLink(review, wordsByKey);
+              return (
+                <tr key={review.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                    {format(new Date(review.date), "MMM dd, yyyy HH:mm")}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                    {contextLink ? (
+                      <Link
+                        to={contextLink}
+                        state={returnState}
+                        title="Show in page"
+                        className="hover:text-[#9C7556] dark:hover:text-[#D4A574] hover:underline"
+                      >
+                        {review.word}
+                      </Link>
+                    ) : (
+                      review.word
+                    )}
+                    {review.cardType && review.cardType !== "recognition" && (
+                      <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                        {CARD_TYPE_LABELS[review.cardType]}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {review.language}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 py-1 text-xs font-semibold rounded-full ${getRatingColor(
+                        review.rating
+                      )}`}
+                    >
+                      {getRatingLabel(review.rating)}
+                    </span>
+                    {review.typedAnswer !== undefined && (
+                      <span
+                        className="ml-2 text-xs text-gray-500 dark:text-gray-400"
+                        title="Typed answer"
+                      >
+                        “{review.typedAnswer}”
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {review.state !== undefined
+                      ? review.previousState !== undefined &&
+                        review.previousState !== review.state
+                        ? `${STATE_LABELS[review.previousState]} → ${
+                            STATE_LABELS[review.state]
+                          }`
+                        : STATE_LABELS[review.state]
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {review.stability !== undefined
+                      ? formatChange(
+                          review.previousStability,
+                          review.stability,
+                          formatDays
+                        )
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {review.difficulty !== undefined
+                      ? formatChange(
+                          review.previousDifficulty,
+                          review.difficulty,
+                          (d) => d.toFixed(1)
+                        )
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {review.elapsedDays !== undefined
+                      ? `${review.elapsedDays}d`
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {review.scheduledDays !== undefined
+                      ? `${review.scheduledDays}d`
+                      : "—"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {review.durationMs !== undefined
+                      ? `${Math.round(review.durationMs / 1000)}s`
+                      : "—"}
+                  </td>
+                </tr>
+              );
+            })}
           </tbody>
         </table>
 
@@ -1,21 +1,92 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { indexedDBService } from "../services/indexedDB";
 import { fsrsService, Rating } from "../services/fsrs";
 import type { SchedulingInfo } from "../services/fsrs";
-import { VocabWord, ReviewSession, WordReview } from "../types";
+import { loadDeckResolver, remainingToday } from "../services/decks";
+import {
+  DeckSettings,
+  ReviewCardType,
+  VocabWord,
+  ReviewSession,
+  WordReview,
+} from "../types";
+import { DEFAULT_CARD_TYPES, getDueCards } from "../utils/cardTypes";
+import { findWordOccurrences } from "../utils/tokens";
+import { gradeTypedAnswer } from "../utils/typedAnswer";
+import type { TypedAnswerResult } from "../utils/typedAnswer";
+import { speechService } from "../services/speech";
 import { format } from "date-fns";
+import type { ReaderReturnState } from "./ReaderPage";
+import { DeckSettingsDialog } from "../components/DeckSettingsDialog";
+import { SpeakButton } from "../components/SpeakButton";
 
 interface ReviewPageProps {
   selectedLanguage: string;
+  typedAnswers?: boolean;
 }
 
 type CardBucket = "new" | "learning" | "review";
 
+// A word in one review direction; its fsrsCard and contexts are that
+// direction's
 interface CardInQueue extends VocabWord {
   bucket: CardBucket;
+  deck: DeckSettings;
+  cardType: ReviewCardType;
+  voiced: boolean; // The device has a voice for the word's language
 }
 
-export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
+// What a rating changed, so it can be taken back
+interface UndoEntry {
+  review: WordReview;
+  card: CardInQueue; // As it was before the rating
+  queue: CardInQueue[];
+  currentIndex: number;
+  contextIndex: number;
+  reviewedCount: number;
+  session?: ReviewSession; // Saved because the rating ended the session
+}
+
+interface PausedSession {
+  language: string;
+  queue: CardInQueue[];
+  currentIndex: number;
+  contextIndex: number;
+  showAnswer: boolean;
+  sessionStartTime: number | null;
+  reviewedCount: number;
+  undoStack: UndoEntry[];
+  typedAnswer: string;
+  typedResult: TypedAnswerResult | null;
+}
+
+// Time spent on a card stops counting after this, like a card left open
+const MAX_CARD_TIME_MS = 5 * 60 * 1000;
+
+const VERDICT_LABELS = {
+  exact: "Correct",
+  diacritics: "Right letters, wrong accents",
+  wrong: "Not quite",
+};
+
+const DIFF_CLASSES = {
+  same: "",
+  accent: "text-orange-600 dark:text-orange-400 underline decoration-wavy",
+  missing:
+    "bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300",
+  extra:
+    "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 line-through",
+};
+
+// Set while the user looks at a card's sentence in its page, so coming back
+// to /review picks the session up at the same card
+let pausedSession: PausedSession | null = null;
+
+export const ReviewPage: React.FC<ReviewPageProps> = ({
+  selectedLanguage,
+  typedAnswers = false,
+}) => {
   const [reviewQueue, setReviewQueue] = useState<CardInQueue[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [contextIndex, setContextIndex] = useState(0);
@@ -25,6 +96,15 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
   const [sessionComplete, setSessionComplete] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
   const [schedulingInfo, setSchedulingInfo] = useState<SchedulingInfo[]>([]);
+  const [showDeckOptions, setShowDeckOptions] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [undoing, setUndoing] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState("");
+  const [typedResult, setTypedResult] = useState<TypedAnswerResult | null>(
+    null
+  );
+  const cardShownAtRef = useRef(Date.now());
+  const navigate = useNavigate();
 
   // Track remaining counts for each bucket
   const newCount = reviewQueue
@@ -38,6 +118,28 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
     .filter((c) => c.bucket === "review").length;
 
   useEffect(() => {
+    const paused = pausedSession;
+    pausedSession = null;
+
+    if (paused && paused.language === selectedLanguage) {
+      setReviewQueue(paused.queue);
+      setCurrentIndex(paused.currentIndex);
+      setContextIndex(paused.contextIndex);
+      setSessionStartTime(paused.sessionStartTime);
+      setReviewedCount(paused.reviewedCount);
+      setUndoStack(paused.undoStack);
+      setTypedAnswer(paused.typedAnswer);
+      setTypedResult(paused.typedResult);
+      if (paused.showAnswer) {
+        const card = paused.queue[paused.currentIndex];
+        setSchedulingInfo(
+          fsrsService.getSchedulingInfo(card.fsrsCard, card.deck)
+        );
+        setShowAnswer(true);
+      }
+      return;
+    }
+
     loadWordsToReview();
   }, [selectedLanguage]);
 
@@ -55,25 +157,67 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
     }
   }, [showMenu]);
 
+  const clearTypedAnswer = () => {
+    setTypedAnswer("");
+    setTypedResult(null);
+  };
+
   const loadWordsToReview = async () => {
-    const words = await indexedDBService.getWordsDueForReview(selectedLanguage);
+    const [words, deckFor, reviews] = await Promise.all([
+      indexedDBService.getVocabWords(selectedLanguage, false),
+      loadDeckResolver(),
+      indexedDBService.getWordReviews(selectedLanguage),
+    ]);
+    // Listening cards, and typing recognition cards, need a voice for the
+    // word's language
+    const spoken = new Set<string>();
+    for (const language of new Set(words.map((w) => w.language))) {
+      if (await speechService.canSpeak(language)) spoken.add(language);
+    }
+    const remaining = remainingToday(
+      reviews,
+      words,
+      deckFor,
+      format(new Date(), "yyyy-MM-dd")
+    );
+
+    // One queue entry per due card, in each direction the deck has on
+    const now = new Date();
+    const dueCards = words.flatMap((word) => {
+      const deck = deckFor(word);
+      const cardTypes = (deck.cardTypes || DEFAULT_CARD_TYPES).filter(
+        (t) => t !== "listening" || spoken.has(word.language)
+      );
+      return getDueCards(word, cardTypes, now).map(
+        ({ cardType, card, contexts }) => ({
+          ...word,
+          fsrsCard: card,
+          contexts,
+          cardType,
+          deck,
+          voiced: spoken.has(word.language),
+        })
+      );
+    });
 
     // Categorize cards into new vs review
-    let newCards = words
-      .filter((w) => !w.fsrsCard || w.fsrsCard.state === 0)
-      .map((word) => ({ ...word, bucket: "new" as CardBucket }));
-
-    const reviewCards = words
-      .filter((w) => w.fsrsCard && w.fsrsCard.state !== 0)
-      .map((word) => ({ ...word, bucket: "review" as CardBucket }));
-
-    // Limit to 20 new cards, prioritizing common words (those with more contexts)
-    const MAX_NEW_CARDS = 20;
-    if (newCards.length > MAX_NEW_CARDS) {
-      // Sort by number of contexts (descending) - more common words first
-      newCards.sort((a, b) => b.contexts.length - a.contexts.length);
-      newCards = newCards.slice(0, MAX_NEW_CARDS);
-    }
+    const newCards = dueCards
+      .filter((c) => c.fsrsCard.state === 0)
+      .map((card) => ({ ...card, bucket: "new" as CardBucket }))
+      // Common words (those with more contexts) first
+      .sort((a, b) => b.contexts.length - a.contexts.length)
+      .filter((card) => remaining.get(card.deck.id)!.newCards-- > 0);
+
+    const reviewCards = dueCards
+      .filter((c) => c.fsrsCard.state !== 0)
+      .map((card) => ({ ...card, bucket: "review" as CardBucket }))
+      // Most overdue first
+      .sort(
+        (a, b) =>
+          new Date(a.fsrsCard.due).getTime() -
+          new Date(b.fsrsCard.due).getTime()
+      )
+      .filter((card) => remaining.get(card.deck.id)!.reviews-- > 0);
 
     // Shuffle within each bucket
     newCards.sort(() => Math.random() - 0.5);
@@ -85,6 +229,8 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
     setShowAnswer(false);
     setSessionComplete(false);
     setReviewedCount(0);
+    setUndoStack([]);
+    clearTypedAnswer();
   };
 
   const startSession = () => {
@@ -96,14 +242,26 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
     if (!currentCard) return;
 
     // Update FSRS card
-    const { card } = fsrsService.reviewWord(currentCard.fsrsCard, rating);
+    const durationMs = Math.min(
+      Date.now() - cardShownAtRef.current,
+      MAX_CARD_TIME_MS
+    );
+    const elapsedDays = fsrsService.getElapsedDays(currentCard.fsrsCard);
+    const { card, log } = fsrsService.reviewWord(
+      currentCard.fsrsCard,
+      rating,
+      currentCard.deck
+    );
     await indexedDBService.updateVocabCard(
       currentCard.word,
       currentCard.language,
-      card
+      card,
+      currentCard.deck.masteryInterval,
+      currentCard.cardType
     );
 
     // Save individual word review
+    const shownContext = currentCard.contexts[contextIndex];
     const wordReview: WordReview = {
       id: `${Date.now()}_${Math.random()}`,
       word: currentCard.word,
@@ -111,6 +269,22 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
       rating,
       date: Date.now(),
       reviewedAt: format(new Date(), "yyyy-MM-dd"),
+      cardType: currentCard.cardType,
+      elapsedDays,
+      previousState: log.state,
+      state: card.state,
+      previousStability: log.stability,
+      previousDifficulty: log.difficulty,
+      stability: card.stability,
+      difficulty: card.difficulty,
+      scheduledDays: card.scheduled_days,
+      durationMs,
+      ...(typedResult
+        ? { typedAnswer: typedAnswer.trim(), typedVerdict: typedResult.verdict }
+        : {}),
+      ...(shownContext?.pageId
+        ? { pageId: shownContext.pageId, sentenceId: shownContext.sentenceId }
+        : {}),
     };
     await indexedDBService.saveWordReview(wordReview);
 
@@ -133,6 +307,15 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
     const nextIndex = currentIndex + 1;
     setReviewedCount(reviewedCount + 1);
 
+    const undoEntry: UndoEntry = {
+      review: wordReview,
+      card: currentCard,
+      queue: reviewQueue,
+      currentIndex,
+      contextIndex,
+      reviewedCount,
+    };
+
     if (nextIndex >= reviewQueue.length) {
       // Session complete
       if (sessionStartTime) {
@@ -145,56 +328,138 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
           duration,
         };
         await indexedDBService.saveReviewSession(session);
+        undoEntry.session = session;
       }
+      setUndoStack([...undoStack, undoEntry]);
       setSessionComplete(true);
     } else {
+      setUndoStack([...undoStack, undoEntry]);
       setCurrentIndex(nextIndex);
       setContextIndex(0);
       setShowAnswer(false);
+      clearTypedAnswer();
       setShowMenu(false); // Close menu when moving to next word
     }
   };
 
+  // Takes back the latest rating and shows its card again, unanswered
+  const handleUndo = async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || undoing) return;
+
+    setUndoing(true);
+    try {
+      await indexedDBService.undoWordReview(
+        entry.review,
+        entry.card.fsrsCard,
+        entry.card.deck.masteryInterval,
+        entry.session
+      );
+      setUndoStack(undoStack.slice(0, -1));
+      setReviewQueue(entry.queue);
+      setCurrentIndex(entry.currentIndex);
+      setContextIndex(entry.contextIndex);
+      setReviewedCount(entry.reviewedCount);
+      setShowAnswer(false);
+      clearTypedAnswer();
+      setSessionComplete(false);
+      setShowMenu(false);
+    } finally {
+      setUndoing(false);
+    }
+  };
+
   const currentCard = reviewQueue[currentIndex];
   const currentContext = currentCard?.contexts[contextIndex];
 
-  // Helper function to escape regex special characters
-  const escapeRegex = (str: string) => {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  };
+  // Typed recognition cards are dictation: the word is heard and spelled,
+  // hidden from the sentence until the card turns. Without a voice, or where
+  // the word can't be blanked out, they are turned by clicking as usual.
+  const dictation =
+    typedAnswers &&
+    currentCard?.cardType === "recognition" &&
+    currentCard.voiced &&
+    !!currentContext &&
+    findWordOccurrences(
+      currentContext.sentenceText,
+      currentContext.form || currentCard.word
+    ).length > 0;
+  const typedCard =
+    typedAnswers && (currentCard?.cardType !== "recognition" || dictation);
+  const hideWord = !showAnswer && (currentCard?.cardType === "cloze" || dictation);
 
-  // Helper function to highlight word in sentence
-  const highlightWord = (sentence: string, word: string) => {
-    // Escape special regex characters
-    const escapedWord = escapeRegex(word);
-    // Match word optionally followed by punctuation
-    // (?<!\S) means "not preceded by a non-whitespace character"
-    // [.,!?;:"""'']* matches optional trailing punctuation
-    // This works with Unicode characters like ë, ç, etc.
-    const regex = new RegExp(
-      `((?<!\\S)${escapedWord}[.,!?;:"""'']*(?=\\s|$))`,
-      "giu"
+  const revealAnswer = () => {
+    setSchedulingInfo(
+      fsrsService.getSchedulingInfo(currentCard.fsrsCard, currentCard.deck)
     );
-    const parts = sentence.split(regex);
-
-    return parts.map((part, i) => {
-      // Check if this part matches the word (case-insensitive)
-      // Strip common punctuation for comparison
-      const cleanPart = part.toLowerCase().replace(/[.,!?;:"""'']/g, "");
-      const cleanWord = word.toLowerCase().replace(/[.,!?;:"""'']/g, "");
-
-      if (cleanPart === cleanWord) {
-        return (
-          <span
-            key={i}
-            className="bg-yellow-200 dark:bg-yellow-900/50 font-semibold px-1 rounded"
-          >
-            {part}
-          </span>
-        );
+    setShowAnswer(true);
+  };
+
+  // Every typed card asks for the word, in the form of the sentence or as
+  // its lemma. Submitting nothing just shows the answer, without a suggested
+  // rating.
+  const handleCheckTypedAnswer = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (typedAnswer.trim()) {
+      setTypedResult(
+        gradeTypedAnswer(typedAnswer, [
+          currentContext.form || currentCard.word,
+          currentCard.word,
+        ])
+      );
+    }
+    revealAnswer();
+  };
+
+  // Time spent on a card counts from when it comes up
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+  }, [currentCard, sessionStartTime]);
+
+  // Listening cards play their sentence as they come up, dictation cards
+  // their word
+  useEffect(() => {
+    if (!sessionStartTime || !currentCard || !currentContext) return;
+    if (currentCard.cardType === "listening") {
+      speechService.speak(currentContext.sentenceText, currentCard.language);
+    } else if (dictation) {
+      speechService.speak(currentCard.word, currentCard.language);
+    } else {
+      return;
+    }
+    return () => speechService.stop();
+  }, [currentCard, currentContext, sessionStartTime, dictation]);
+
+  // Helper function to highlight word in sentence, or blank it out for cloze
+  // cards before the answer is shown. Finds the word the same way cloze cards
+  // pick their sentences.
+  const highlightWord = (sentence: string, word: string, blank = false) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    findWordOccurrences(sentence, word).forEach(({ start, end }, i) => {
+      if (start > cursor) {
+        parts.push(<span key={`t${i}`}>{sentence.slice(cursor, start)}</span>);
       }
-      return <span key={i}>{part}</span>;
+      parts.push(
+        <span
+          key={`w${i}`}
+          className={
+            blank
+              ? "inline-block min-w-[4rem] border-b-2 border-[#9C7556] dark:border-[#D4A574] text-transparent select-none"
+              : "bg-yellow-200 dark:bg-yellow-900/50 font-semibold px-1 rounded"
+          }
+        >
+          {sentence.slice(start, end)}
+        </span>
+      );
+      cursor = end;
     });
+
+    if (cursor < sentence.length) {
+      parts.push(<span key="rest">{sentence.slice(cursor)}</span>);
+    }
+    return parts;
   };
 
   const handleNextContext = () => {
@@ -209,6 +474,30 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
     }
   };
 
+  const handleShowInPage = () => {
+    if (!currentContext?.pageId) return;
+
+    pausedSession = {
+      language: selectedLanguage,
+      queue: reviewQueue,
+      currentIndex,
+      contextIndex,
+      showAnswer,
+      sessionStartTime,
+      reviewedCount,
+      undoStack,
+      typedAnswer,
+      typedResult,
+    };
+    const state: ReaderReturnState = {
+      returnLabel: "Back to review",
+    };
+    navigate(
+      `/pages/${currentContext.pageId}/s/${currentContext.sentenceId}`,
+      { state }
+    );
+  };
+
   const handleIgnoreWord = async () => {
     const ignoredCard = reviewQueue[currentIndex];
     if (!ignoredCard) return;
@@ -219,15 +508,23 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
       ignoredCard.language
     );
 
-    // Remove from current review session
-    const updatedQueue = reviewQueue.filter((_, i) => i !== currentIndex);
+    // Remove all of the word's cards still to come from the current review
+    // session. Earlier queues saved for undo still hold the word, so ratings
+    // before this can't be taken back any more.
+    const updatedQueue = reviewQueue.filter(
+      (entry, i) =>
+        i < currentIndex ||
+        entry.word !== ignoredCard.word ||
+        entry.language !== ignoredCard.language
+    );
     setReviewQueue(updatedQueue);
+    setUndoStack([]);
 
     // Close menu
     setShowMenu(false);
 
     // If no more words, end session
-    if (updatedQueue.length === 0) {
+    if (currentIndex >= updatedQueue.length) {
       if (sessionStartTime) {
         const duration = Math.floor((Date.now() - sessionStartTime) / 1000);
         const session: ReviewSession = {
@@ -244,9 +541,18 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
       // Reset for next word (stay at same index, which now has a new word)
       setContextIndex(0);
       setShowAnswer(false);
+      clearTypedAnswer();
     }
   };
 
+  const deckOptionsDialog = showDeckOptions && (
+    <DeckSettingsDialog
+      language={selectedLanguage}
+      onClose={() => setShowDeckOptions(false)}
+      onSaved={loadWordsToReview}
+    />
+  );
+
   if (reviewQueue.length === 0 && !sessionComplete) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-8 text-center">
@@ -263,6 +569,13 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
         >
           Check Again
         </button>
+        <button
+          onClick={() => setShowDeckOptions(true)}
+          className="mt-4 text-sm text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium"
+        >
+          Deck options
+        </button>
+        {deckOptionsDialog}
       </div>
     );
   }
@@ -287,6 +600,13 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
         >
           Start Review
         </button>
+        <button
+          onClick={() => setShowDeckOptions(true)}
+          className="mt-4 text-sm text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium"
+        >
+          Deck options
+        </button>
+        {deckOptionsDialog}
       </div>
     );
   }
@@ -312,6 +632,15 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
         >
           Review Again
         </button>
+        {undoStack.length > 0 && (
+          <button
+            onClick={handleUndo}
+            disabled={undoing}
+            className="mt-4 text-sm text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium disabled:opacity-50"
+          >
+            ↶ Undo last review
+          </button>
+        )}
       </div>
     );
   }
@@ -331,8 +660,22 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
         <div className="max-w-3xl mx-auto">
           <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
             <span>Progress</span>
-            <span>
-              {currentIndex + 1} / {reviewQueue.length}
+            <span className="flex items-center gap-3">
+              {undoStack.length > 0 && (
+                <button
+                  onClick={handleUndo}
+                  disabled={undoing}
+                  className="text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium disabled:opacity-50"
+                  title={`Undo the rating of "${
+                    undoStack[undoStack.length - 1].review.word
+                  }"`}
+                >
+                  ↶ Undo
+                </button>
+              )}
+              <span>
+                {currentIndex + 1} / {reviewQueue.length}
+              </span>
             </span>
           </div>
           <div className="w-full bg-gray-300 dark:bg-gray-700 rounded-full h-2">
@@ -427,45 +770,187 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
             {/* Clickable card area */}
             <div
               onClick={() => {
-                if (!showAnswer) {
-                  const info = fsrsService.getSchedulingInfo(
-                    currentCard.fsrsCard
-                  );
-                  setSchedulingInfo(info);
-                  setShowAnswer(true);
-                }
+                if (!showAnswer && !typedCard) revealAnswer();
               }}
-              className={!showAnswer ? "cursor-pointer" : ""}
+              className={
+                !showAnswer && !typedCard ? "cursor-pointer" : ""
+              }
             >
+              {/* Prompt of reverse cards */}
+              {currentCard.cardType === "reverse" && (
+                <div className="mb-6 text-center">
+                  <div className="text-sm text-gray-500 dark:text-gray-400 uppercase mb-1">
+                    Which word means
+                  </div>
+                  <div className="text-2xl lg:text-3xl font-semibold text-gray-900 dark:text-white">
+                    {currentContext.meaning}
+                  </div>
+                  {!showAnswer && (
+                    <div className="mt-3 text-gray-500 dark:text-gray-400">
+                      {currentContext.sentenceTranslation}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Word being studied */}
-              <div className="mb-6 text-center">
-                <div className="text-3xl lg:text-4xl font-bold text-[#9C7556] dark:text-[#D4A574] dark:text-[#D4A574]">
-                  {currentCard.word}
+              {((currentCard.cardType === "recognition" && !hideWord) ||
+                showAnswer) && (
+                <div className="mb-6 text-center">
+                  <div className="text-3xl lg:text-4xl font-bold text-[#9C7556] dark:text-[#D4A574] dark:text-[#D4A574]">
+                    {currentCard.word}
+                    <SpeakButton
+                      text={currentCard.word}
+                      language={currentCard.language}
+                      className="ml-2 text-2xl align-middle"
+                    />
+                  </div>
                 </div>
-              </div>
+              )}
+
+              {/* Prompt of dictation cards */}
+              {dictation && !showAnswer && (
+                <div className="mb-6 text-center">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      speechService.speak(currentCard.word, currentCard.language);
+                    }}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+                  >
+                    🔊 Play word
+                  </button>
+                </div>
+              )}
+
+              {/* Prompt of listening cards */}
+              {currentCard.cardType === "listening" && (
+                <div className="mb-6 text-center">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      speechService.speak(
+                        currentContext.sentenceText,
+                        currentCard.language
+                      );
+                    }}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+                  >
+                    🔊 Play sentence
+                  </button>
+                </div>
+              )}
 
               {/* Sentence with highlighted word */}
-              <div className="mb-6">
-                <div className="text-sm text-gray-500 dark:text-gray-400 uppercase mb-2">
-                  Example Sentence
+              {/* Reverse and listening cards give the word away in it */}
+              {(currentCard.cardType === "recognition" ||
+                currentCard.cardType === "cloze" ||
+                showAnswer) && (
+                <div className="mb-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="text-sm text-gray-500 dark:text-gray-400 uppercase">
+                      Example Sentence
+                      {/* Hearing the sentence would give a hidden word away */}
+                      {!hideWord && (
+                        <SpeakButton
+                          text={currentContext.sentenceText}
+                          language={currentCard.language}
+                          className="ml-2 normal-case"
+                        />
+                      )}
+                    </div>
+                    {currentContext.pageId && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleShowInPage();
+                        }}
+                        className="text-sm text-[#9C7556] dark:text-[#D4A574] hover:text-[#7A5639] dark:hover:text-[#C9A671] font-medium"
+                      >
+                        Show in page →
+                      </button>
+                    )}
+                  </div>
+                  <div className="text-xl lg:text-2xl text-gray-800 dark:text-gray-200 leading-relaxed">
+                    {highlightWord(
+                      currentContext.sentenceText,
+                      currentContext.form || currentCard.word,
+                      hideWord
+                    )}
+                  </div>
+                  {currentCard.cardType === "cloze" && !showAnswer && (
+                    <div className="mt-2 text-gray-500 dark:text-gray-400">
+                      {currentContext.sentenceTranslation}
+                    </div>
+                  )}
                 </div>
-                <div className="text-xl lg:text-2xl text-gray-800 dark:text-gray-200 leading-relaxed">
-                  {highlightWord(currentContext.sentenceText, currentCard.word)}
+              )}
+            </div>
+
+            {/* Typed answer */}
+            {typedCard && !showAnswer && (
+              <form onSubmit={handleCheckTypedAnswer} className="flex gap-2">
+                <input
+                  key={`${currentIndex}_${currentCard.cardType}`}
+                  type="text"
+                  value={typedAnswer}
+                  onChange={(e) => setTypedAnswer(e.target.value)}
+                  placeholder={dictation ? "Type the word you hear" : "Type the word"}
+                  autoFocus
+                  autoComplete="off"
+                  autoCapitalize="off"
+                  spellCheck={false}
+                  className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-[#9C7556] dark:focus:ring-[#8B6F47] focus:border-[#9C7556] dark:focus:border-[#8B6F47] outline-none"
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-[#9C7556] dark:bg-[#3E2E22] text-white rounded-lg hover:bg-[#7A5639] font-medium"
+                >
+                  {typedAnswer.trim() ? "Check" : "Show"}
+                </button>
+              </form>
+            )}
+            {showAnswer && typedResult && (
+              <div className="mb-4 p-4 rounded-lg border border-gray-200 dark:border-gray-800">
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-semibold text-gray-500 dark:text-gray-400 uppercase">
+                    Your Answer
+                  </span>
+                  <span
+                    className={
+                      typedResult.verdict === "exact"
+                        ? "text-green-600 dark:text-green-400"
+                        : typedResult.verdict === "diacritics"
+                        ? "text-orange-600 dark:text-orange-400"
+                        : "text-red-600 dark:text-red-400"
+                    }
+                  >
+                    {VERDICT_LABELS[typedResult.verdict]}
+                  </span>
+                </div>
+                <div className="text-lg text-gray-900 dark:text-white">
+                  {typedResult.diff.map((part, i) => (
+                    <span key={i} className={DIFF_CLASSES[part.kind]}>
+                      {part.text}
+                    </span>
+                  ))}
                 </div>
               </div>
-            </div>
+            )}
 
             {/* Answer */}
             {showAnswer && (
               <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-900 rounded-lg border border-transparent dark:border-gray-800">
-                <div className="mb-3">
-                  <div className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase mb-1">
-                    Word Meaning
+                {currentCard.cardType !== "reverse" && (
+                  <div className="mb-3">
+                    <div className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase mb-1">
+                      Word Meaning
+                    </div>
+                    <div className="text-lg text-gray-900 dark:text-white">
+                      {currentContext.meaning}
+                    </div>
                   </div>
-                  <div className="text-lg text-gray-900 dark:text-white">
-                    {currentContext.meaning}
-                  </div>
-                </div>
+                )}
                 <div>
                   <div className="text-sm font-semibold text-gray-500 dark:text-gray-400 uppercase mb-1">
                     Sentence Translation
@@ -534,11 +1019,20 @@ export const ReviewPage: React.FC<ReviewPageProps> = ({ selectedLanguage }) => {
                       ? "Good"
                       : "Easy";
 
+                  // Typed answers point at the rating they earned
+                  const suggested =
+                    typedResult?.suggestedRating === info.rating;
+
                   return (
                     <button
                       key={info.rating}
                       onClick={() => handleRating(info.rating)}
-                      className={`py-3 rounded-lg font-medium ${buttonClass} flex flex-col items-center justify-center`}
+                      title={suggested ? "Suggested by your answer" : undefined}
+                      className={`py-3 rounded-lg font-medium ${buttonClass} flex flex-col items-center justify-center ${
+                        suggested
+                          ? "ring-2 ring-[#9C7556] dark:ring-[#D4A574]"
+                          : ""
+                      }`}
                     >
                       <span className="font-semibold">{label}</span>
                       <span className="text-xs opacity-75 mt-1">
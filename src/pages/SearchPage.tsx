@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Book, PageData, VocabWord } from "../types";
+import { indexedDBService } from "../services/indexedDB";
+import { hashString } from "../utils/hash";
+import { vocabKey } from "../utils/vocab";
+import {
+  SearchHit,
+  normalizeForSearch,
+  rankSearchHits,
+  tokenizeForSearch,
+  vocabDocId,
+} from "../utils/search";
+import type { ReaderReturnState } from "./ReaderPage";
+
+interface SearchPageProps {
+  pages: PageData[];
+  books: Book[];
+}
+
+interface SearchResult {
+  hit: SearchHit;
+  text: string;
+  translation: string;
+  source: string; // Where the sentence came from, e.g. book and page
+  link?: string;
+}
+
+const MAX_RESULTS = 50;
+const SEARCH_DELAY_MS = 250;
+
+const returnState: ReaderReturnState = {
+  returnLabel: "Back to search",
+};
+
+// Mark the words in `text` that match a query term the way the index does
+const highlightTerms = (text: string, terms: string[]) =>
+  text.split(/([\p{L}\p{N}]+)/u).map((part, i) => {
+    const normalized = normalizeForSearch(part);
+    const matches = terms.some((term) =>
+      term.length >= 3 ? normalized.startsWith(term) : normalized === term
+    );
+    return matches ? (
+      <mark
+        key={i}
+        className="bg-[#E8D5C4] dark:bg-[#3E2E22] text-inherit rounded px-0.5"
+      >
+        {part}
+      </mark>
+    ) : (
+      <React.Fragment key={i}>{part}</React.Fragment>
+    );
+  });
+
+// Turn index hits into displayable sentences, dropping any that no longer exist
+const resolveResults = (
+  hits: SearchHit[],
+  pages: PageData[],
+  books: Book[],
+  vocabWords: VocabWord[]
+): SearchResult[] => {
+  const vocabByDoc = new Map(
+    vocabWords.map((w) => [vocabDocId(vocabKey(w.word, w.language)), w])
+  );
+  const resolved: SearchResult[] = [];
+
+  for (const hit of hits) {
+    if (resolved.length >= MAX_RESULTS) break;
+
+    const page = pages.find((p) => p.id === hit.pageId);
+    const sentence = page?.paragraphs
+      .flatMap((p) => p.sentences)
+      .find((s) => hashString(s.text) === hit.sentenceId);
+
+    if (page && sentence) {
+      const book = page.bookId
+        ? books.find((b) => b.id === page.bookId)
+        : undefined;
+      resolved.push({
+        hit,
+        text: sentence.text,
+        translation: sentence.translation,
+        source: [
+          book?.title || page.language,
+          page.pageNumber ? `p. ${page.pageNumber}` : null,
+        ]
+          .filter(Boolean)
+          .join(", "),
+        link: `/pages/${page.id}/s/${hit.sentenceId}`,
+      });
+      continue;
+    }
+
+    // Vocab contexts whose page is gone (or that were imported) still show
+    const word = vocabByDoc.get(hit.docId);
+    const context = word?.contexts.find(
+      (c) => c.sentenceId === hit.sentenceId
+    );
+    if (word && context) {
+      resolved.push({
+        hit,
+        text: context.sentenceText,
+        translation: context.sentenceTranslation,
+        source: `Vocabulary: ${word.word}`,
+      });
+    }
+  }
+
+  return resolved;
+};
+
+export const SearchPage: React.FC<SearchPageProps> = ({ pages, books }) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") || "";
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [vocabWords, setVocabWords] = useState<VocabWord[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const terms = Array.from(new Set(tokenizeForSearch(query)));
+
+  useEffect(() => {
+    indexedDBService.getVocabWords("all").then(setVocabWords);
+  }, []);
+
+  useEffect(() => {
+    const queryTerms = Array.from(new Set(tokenizeForSearch(query)));
+    if (queryTerms.length === 0) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      setSearching(true);
+      const postings = await indexedDBService.searchTerms(queryTerms);
+      const hits = rankSearchHits(queryTerms, postings);
+      if (!cancelled) {
+        setResults(resolveResults(hits, pages, books, vocabWords));
+        setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query, pages, books, vocabWords]);
+
+  return (
+    <div className="p-4 lg:p-8 max-w-4xl mx-auto">
+      <input
+        type="search"
+        autoFocus
+        value={query}
+        onChange={(e) =>
+          setSearchParams(e.target.value ? { q: e.target.value } : {}, {
+            replace: true,
+          })
+        }
+        placeholder="Search pages, translations and words..."
+        className="w-full px-4 py-3 text-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-white rounded-lg focus:ring-2 focus:ring-[#9C7556] dark:focus:ring-[#8B6F47] focus:border-[#9C7556] dark:focus:border-[#8B6F47] outline-none"
+      />
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        Accents are ignored, so "shkolle" also finds "shkollë".
+      </p>
+
+      <div className="mt-6 space-y-3">
+        {results.map((result) => {
+          const content = (
+            <>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {result.source}
+                </span>
+                {!result.hit.fields.includes("source") &&
+                  !result.hit.fields.includes("vocab") && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                      matched translation
+                    </span>
+                  )}
+              </div>
+              <p className="text-gray-900 dark:text-white">
+                {highlightTerms(result.text, terms)}
+              </p>
+              {result.translation && (
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  {highlightTerms(result.translation, terms)}
+                </p>
+              )}
+            </>
+          );
+
+          const key = `${result.hit.docId}#${result.hit.sentenceId}`;
+          const className =
+            "block bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4";
+
+          return result.link ? (
+            <Link
+              key={key}
+              to={result.link}
+              state={returnState}
+              className={`${className} hover:border-[#9C7556] dark:hover:border-[#8B6F47] transition-colors`}
+            >
+              {content}
+            </Link>
+          ) : (
+            <div key={key} className={className}>
+              {content}
+            </div>
+          );
+        })}
+
+        {terms.length > 0 && !searching && results.length === 0 && (
+          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+            No matches for "{query}".
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -14,6 +14,7 @@ import {
 } from "recharts";
 import { format, subDays, eachDayOfInterval, startOfDay } from "date-fns";
 import { isMasteredWord } from "../services/fsrs";
+import { loadDeckResolver } from "../services/decks";
 
 interface StatsPageProps {
   selectedLanguage: string;
@@ -38,9 +39,10 @@ export const StatsPage: React.FC<StatsPageProps> = ({ selectedLanguage }) => {
     const words = await indexedDBService.getVocabWords(selectedLanguage, false);
     setVocabCount(words.length);
 
-    // Calculate mastered count
+    // Calculate mastered count, by each word's deck threshold
+    const deckFor = await loadDeckResolver();
     const masteredCount = words.filter((w) =>
-      isMasteredWord(w.fsrsCard)
+      isMasteredWord(w.fsrsCard, deckFor(w).masteryInterval)
     ).length;
     setMasteredVocabCount(masteredCount);
 
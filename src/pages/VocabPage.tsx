@@ -12,6 +12,9 @@ import {
 } from "recharts";
 import { format, subDays } from "date-fns";
 import { isMasteredWord } from "../services/fsrs";
+import { DeckResolver, loadDeckResolver } from "../services/decks";
+import { VocabExportDialog } from "../components/VocabExportDialog";
+import { VocabImportDialog } from "../components/VocabImportDialog";
 
 interface VocabPageProps {
   selectedLanguage: string;
@@ -25,6 +28,9 @@ export const VocabPage: React.FC<VocabPageProps> = ({ selectedLanguage }) => {
     "addedAt"
   );
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [deckFor, setDeckFor] = useState<DeckResolver | null>(null);
 
   useEffect(() => {
     loadVocabWords();
@@ -36,8 +42,13 @@ export const VocabPage: React.FC<VocabPageProps> = ({ selectedLanguage }) => {
       showIgnored
     );
     setVocabWords(words);
+    const resolver = await loadDeckResolver();
+    setDeckFor(() => resolver);
   };
 
+  const isMastered = (w: VocabWord) =>
+    isMasteredWord(w.fsrsCard, deckFor?.(w).masteryInterval);
+
   const handleToggleIgnore = async (word: string, language: string) => {
     await indexedDBService.toggleIgnoreWord(word, language);
     loadVocabWords();
@@ -74,11 +85,11 @@ export const VocabPage: React.FC<VocabPageProps> = ({ selectedLanguage }) => {
 
   const activeWords = vocabWords.filter((w) => !w.ignored);
   const ignoredWords = vocabWords.filter((w) => w.ignored);
-  const masteredWords = activeWords.filter((w) => isMasteredWord(w.fsrsCard));
+  const masteredWords = activeWords.filter(isMastered);
 
   // Filter words based on toggles
   const displayWords = showOnlyMastered
-    ? vocabWords.filter((w) => !w.ignored && isMasteredWord(w.fsrsCard))
+    ? vocabWords.filter((w) => !w.ignored && isMastered(w))
     : vocabWords;
 
   const sortedWords = [...displayWords].sort((a, b) => {
@@ -216,18 +227,47 @@ export const VocabPage: React.FC<VocabPageProps> = ({ selectedLanguage }) => {
           </div>
         </div>
 
-        <button
-          onClick={() => setShowOnlyMastered(!showOnlyMastered)}
-          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
-            showOnlyMastered
-              ? "bg-green-600 text-white"
-              : "bg-gray-200 text-gray-700 hover:bg-gray-300 dark:hover:bg-gray-700"
-          }`}
-        >
-          {showOnlyMastered ? "Show All" : "Show Mastered Only"}
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowImport(true)}
+            className="px-4 py-2 rounded-lg font-medium border border-gray-300 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+          >
+            Import
+          </button>
+          <button
+            onClick={() => setShowExport(true)}
+            className="px-4 py-2 rounded-lg font-medium border border-gray-300 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+          >
+            Export to Anki
+          </button>
+          <button
+            onClick={() => setShowOnlyMastered(!showOnlyMastered)}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              showOnlyMastered
+                ? "bg-green-600 text-white"
+                : "bg-gray-200 text-gray-700 hover:bg-gray-300 dark:hover:bg-gray-700"
+            }`}
+          >
+            {showOnlyMastered ? "Show All" : "Show Mastered Only"}
+          </button>
+        </div>
       </div>
 
+      {showExport && (
+        <VocabExportDialog
+          selectedLanguage={selectedLanguage}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showImport && (
+        <VocabImportDialog
+          selectedLanguage={selectedLanguage}
+          onClose={() => setShowImport(false)}
+          onImported={loadVocabWords}
+        />
+      )}
+
       {/* Table */}
       <div className="bg-white dark:bg-gray-950 rounded-lg shadow-sm overflow-hidden">
         <div className="overflow-x-auto">
@@ -273,6 +313,16 @@ export const VocabPage: React.FC<VocabPageProps> = ({ selectedLanguage }) => {
                   >
                     <td className="px-4 py-3 text-sm font-medium text-gray-900 dark:text-white">
                       {word.word}
+                      {word.isPhrase && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-[#E8D5C4] text-[#7A5639] dark:bg-[#3E2E22] dark:text-[#D4A574]">
+                          phrase
+                        </span>
+                      )}
+                      {word.forms && word.forms.length > 0 && (
+                        <div className="text-xs font-normal text-gray-500 dark:text-gray-400 mt-1">
+                          {word.forms.join(", ")}
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3 text-sm text-gray-600 dark:text-gray-400">
                       {word.contexts[0]?.meaning || "—"}
@@ -0,0 +1,171 @@
+import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
+import { GrammarExplanation, Sentence } from '../../types';
+import { DEFAULT_GEMINI_MODEL } from '../../constants';
+import { AIProvider, ExtractedParagraph } from './types';
+import {
+  buildExtractionPrompt,
+  buildSplitPrompt,
+  buildTranslationPrompt,
+  buildExplanationPrompt,
+  parseExtraction,
+  parseSentences,
+  parseTranslation,
+  toExplanation,
+} from './prompts';
+
+export class GeminiService implements AIProvider {
+  private genAI: GoogleGenerativeAI;
+  private modelName: string;
+
+  constructor(apiKey: string, modelName: string = DEFAULT_GEMINI_MODEL) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.modelName = modelName;
+  }
+
+  async extractParagraphs(imageDataUrl: string, language: string): Promise<ExtractedParagraph[]> {
+    // Convert data URL to base64 (remove header)
+    const base64Data = imageDataUrl.split(',')[1];
+    const mimeType = imageDataUrl.split(';')[0].split(':')[1];
+
+    const box = { type: SchemaType.ARRAY, items: { type: SchemaType.NUMBER } } as const;
+    const model = this.genAI.getGenerativeModel({
+      model: this.modelName,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: SchemaType.OBJECT,
+          properties: {
+            paragraphs: {
+              type: SchemaType.ARRAY,
+              items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                  text: { type: SchemaType.STRING },
+                  box,
+                  lines: {
+                    type: SchemaType.ARRAY,
+                    items: {
+                      type: SchemaType.OBJECT,
+                      properties: {
+                        text: { type: SchemaType.STRING },
+                        box
+                      },
+                      required: ["text", "box"]
+                    }
+                  }
+                },
+                required: ["text", "box", "lines"]
+              }
+            }
+          },
+          required: ["paragraphs"]
+        }
+      }
+    });
+
+    const result = await model.generateContent([
+      buildExtractionPrompt(language),
+      {
+        inlineData: {
+          data: base64Data,
+          mimeType: mimeType
+        }
+      }
+    ]);
+
+    const response = await result.response;
+    return parseExtraction(response.text());
+  }
+
+  async splitIntoSentences(paragraphText: string, language: string): Promise<string[]> {
+    const model = this.genAI.getGenerativeModel({ model: this.modelName });
+
+    const result = await model.generateContent(buildSplitPrompt(paragraphText, language));
+    const response = await result.response;
+    return parseSentences(response.text());
+  }
+
+  async translateSentenceAndWords(sentence: string, sourceLanguage: string, targetLanguage: string): Promise<Sentence> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.modelName,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: SchemaType.OBJECT,
+          properties: {
+            translation: { type: SchemaType.STRING },
+            words: {
+              type: SchemaType.ARRAY,
+              items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                  word: { type: SchemaType.STRING },
+                  meaning: { type: SchemaType.STRING },
+                  lemma: { type: SchemaType.STRING },
+                  partOfSpeech: { type: SchemaType.STRING },
+                  case: { type: SchemaType.STRING },
+                  number: { type: SchemaType.STRING },
+                  tense: { type: SchemaType.STRING }
+                },
+                required: ["word", "meaning", "lemma", "partOfSpeech"]
+              }
+            },
+            expressions: {
+              type: SchemaType.ARRAY,
+              items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                  expression: { type: SchemaType.STRING },
+                  words: {
+                    type: SchemaType.ARRAY,
+                    items: { type: SchemaType.STRING }
+                  },
+                  meaning: { type: SchemaType.STRING }
+                },
+                required: ["expression", "words", "meaning"]
+              }
+            }
+          },
+          required: ["translation", "words", "expressions"]
+        }
+      }
+    });
+
+    const result = await model.generateContent(buildTranslationPrompt(sentence, sourceLanguage, targetLanguage));
+    const response = await result.response;
+    return parseTranslation(sentence, response.text());
+  }
+
+  async explainGrammar(sentence: string, sourceLanguage: string, targetLanguage: string): Promise<GrammarExplanation> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.modelName,
+      generationConfig: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: SchemaType.OBJECT,
+          properties: {
+            tokens: {
+              type: SchemaType.ARRAY,
+              items: {
+                type: SchemaType.OBJECT,
+                properties: {
+                  token: { type: SchemaType.STRING },
+                  role: { type: SchemaType.STRING },
+                  form: { type: SchemaType.STRING },
+                  note: { type: SchemaType.STRING }
+                },
+                required: ["token", "role", "form", "note"]
+              }
+            },
+            summary: { type: SchemaType.STRING }
+          },
+          required: ["tokens", "summary"]
+        }
+      }
+    });
+
+    const result = await model.generateContent(buildExplanationPrompt(sentence, sourceLanguage, targetLanguage));
+    const response = await result.response;
+    return toExplanation(JSON.parse(response.text()), targetLanguage);
+  }
+}
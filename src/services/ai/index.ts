@@ -0,0 +1,125 @@
+import { AIModelConfig, AIOperation, AppSettings, GrammarExplanation, Paragraph, Sentence } from '../../types';
+import { DEFAULT_AI_MODELS, DEFAULT_OPENAI_BASE_URL } from '../../constants';
+import { AIProvider, ExtractedParagraph } from './types';
+import { GeminiService } from './gemini';
+import { OpenAICompatibleService } from './openai';
+import { MockAIService } from './mock';
+import { TRANSLATION_PROMPT_VERSION, toSentence, toTranslationData } from './prompts';
+import { indexedDBService } from '../indexedDB';
+import { translationCacheKey } from '../../utils/translationCache';
+
+export type { AIProvider, ExtractedParagraph } from './types';
+
+// Resolve the provider/model for every operation, falling back to defaults for older settings
+export function getAIModels(settings: AppSettings): Record<AIOperation, AIModelConfig> {
+  return { ...DEFAULT_AI_MODELS, ...(settings.aiModels || {}) };
+}
+
+export function createProvider(config: AIModelConfig, settings: AppSettings): AIProvider {
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiService(settings.apiKey, config.model);
+    case 'openai':
+      return new OpenAICompatibleService(
+        settings.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL,
+        config.model,
+        settings.openaiApiKey
+      );
+    case 'mock':
+      return new MockAIService();
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+}
+
+// Returns a user-facing message if the configured providers are missing credentials
+export function getMissingAICredentials(settings: AppSettings): string | null {
+  const models = Object.values(getAIModels(settings));
+  if (models.some(m => m.provider === 'gemini') && !settings.apiKey) {
+    return 'Please set your Google Gemini API key in settings first.';
+  }
+  if (models.some(m => m.provider === 'openai') && !settings.openaiBaseUrl) {
+    return 'Please set the OpenAI-compatible endpoint URL in settings first.';
+  }
+  return null;
+}
+
+export interface AIServiceOptions {
+  bypassTranslationCache?: boolean; // Translate afresh, replacing what is cached
+}
+
+// Routes each operation to the provider configured for it
+export class AIService {
+  private extractor: AIProvider;
+  private splitter: AIProvider;
+  private translator: AIProvider;
+  private explainer: AIProvider;
+  private translateModel: AIModelConfig;
+  private bypassTranslationCache: boolean;
+
+  constructor(settings: AppSettings, options: AIServiceOptions = {}) {
+    const models = getAIModels(settings);
+    this.translateModel = models.translate;
+    this.bypassTranslationCache = !!options.bypassTranslationCache;
+    this.extractor = createProvider(models.extract, settings);
+    this.splitter = createProvider(models.split, settings);
+    this.translator = createProvider(models.translate, settings);
+    this.explainer = createProvider(models.explain, settings);
+  }
+
+  extractParagraphs(imageDataUrl: string, language: string): Promise<ExtractedParagraph[]> {
+    return this.extractor.extractParagraphs(imageDataUrl, language);
+  }
+
+  splitIntoSentences(paragraphText: string, language: string): Promise<string[]> {
+    return this.splitter.splitIntoSentences(paragraphText, language);
+  }
+
+  // Answers from the translation cache when it can. A failed translation
+  // isn't cached, so the next upload tries the sentence again.
+  async translateSentenceAndWords(sentence: string, sourceLanguage: string, targetLanguage: string): Promise<Sentence> {
+    const key = translationCacheKey(
+      sentence,
+      sourceLanguage,
+      targetLanguage,
+      this.translateModel,
+      TRANSLATION_PROMPT_VERSION
+    );
+    if (!this.bypassTranslationCache) {
+      const cached = await indexedDBService.lookupTranslation(key).catch(() => null);
+      if (cached) return toSentence(sentence, cached.data);
+    }
+
+    const translated = await this.translator.translateSentenceAndWords(sentence, sourceLanguage, targetLanguage);
+    if (translated.words.size > 0) {
+      await indexedDBService
+        .saveCachedTranslation({ key, data: toTranslationData(translated), createdAt: Date.now() })
+        .catch((error) => console.error('Failed to cache translation:', error));
+    }
+    return translated;
+  }
+
+  explainGrammar(sentence: string, sourceLanguage: string, targetLanguage: string): Promise<GrammarExplanation> {
+    return this.explainer.explainGrammar(sentence, sourceLanguage, targetLanguage);
+  }
+
+  async processParagraphsConcurrently(paragraphTexts: string[], sourceLanguage: string, targetLanguage: string): Promise<Paragraph[]> {
+    const paragraphPromises = paragraphTexts.map(async (paragraphText) => {
+      // Split paragraph into sentences
+      const sentenceTexts = await this.splitIntoSentences(paragraphText, sourceLanguage);
+
+      // Process all sentences in this paragraph concurrently
+      const sentencePromises = sentenceTexts.map(sentenceText =>
+        this.translateSentenceAndWords(sentenceText, sourceLanguage, targetLanguage)
+      );
+
+      const sentences = await Promise.all(sentencePromises);
+
+      return {
+        sentences
+      };
+    });
+
+    return Promise.all(paragraphPromises);
+  }
+}
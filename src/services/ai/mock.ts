@@ -0,0 +1,75 @@
+import { GrammarExplanation, Sentence } from '../../types';
+import { AIProvider, ExtractedParagraph } from './types';
+import { toExplanation, toSentence } from './prompts';
+
+const SAMPLE_TEXT = `Ky është një tekst shembull. Ai përdoret kur nuk ka lidhje me modelin.
+
+Çdo fjali përkthehet në mënyrë të përcaktuar. Rezultati është gjithmonë i njëjtë.`;
+
+// Deterministic offline provider for development and demos.
+// Never calls the network and always returns the same output for the same input.
+export class MockAIService implements AIProvider {
+  // Paragraphs stacked down the page with one line per sentence, so the image view has regions to show
+  async extractParagraphs(): Promise<ExtractedParagraph[]> {
+    const LINE_HEIGHT = 0.05;
+    let top = 0.1;
+
+    return SAMPLE_TEXT.split('\n\n').map((text) => {
+      const lineTexts = (text.match(/[^.!?]+[.!?]*/g) || []).map(s => s.trim());
+      const paragraph = {
+        text,
+        box: { x: 0.1, y: top, width: 0.8, height: lineTexts.length * LINE_HEIGHT },
+        lines: lineTexts.map((lineText, i) => ({
+          text: lineText,
+          box: { x: 0.1, y: top + i * LINE_HEIGHT, width: 0.8, height: LINE_HEIGHT * 0.8 },
+        })),
+      };
+      top += (lineTexts.length + 1) * LINE_HEIGHT;
+      return paragraph;
+    });
+  }
+
+  async splitIntoSentences(paragraphText: string): Promise<string[]> {
+    return (paragraphText.match(/[^.!?]+[.!?]*/g) || [])
+      .map(s => s.trim())
+      .filter(s => s.length > 0);
+  }
+
+  async translateSentenceAndWords(sentence: string, _sourceLanguage: string, targetLanguage: string): Promise<Sentence> {
+    const words = sentence
+      .split(/\s+/)
+      .map(w => w.replace(/[.,!?;:"""'']/g, ''))
+      .filter(w => w.length > 0)
+      .map(word => ({ word, meaning: `${word} (${targetLanguage})` }));
+
+    // Treat the first two words as an expression so phrase lookup can be exercised offline
+    const expressions = words.length >= 2
+      ? [{
+          expression: `${words[0].word} ${words[1].word}`,
+          words: [words[0].word, words[1].word],
+          meaning: `${words[0].word} ${words[1].word} (${targetLanguage} expression)`,
+        }]
+      : [];
+
+    return toSentence(sentence, {
+      translation: `[${targetLanguage}] ${sentence}`,
+      words,
+      expressions,
+    });
+  }
+
+  async explainGrammar(sentence: string, _sourceLanguage: string, targetLanguage: string): Promise<GrammarExplanation> {
+    const tokens = sentence
+      .split(/\s+/)
+      .map(w => w.replace(/[.,!?;:"""'']/g, ''))
+      .filter(w => w.length > 0)
+      .map((token, i) => ({
+        token,
+        role: i === 0 ? 'subject' : 'complement',
+        form: `${token.length} letters`,
+        note: i === 0 ? `Mock note in ${targetLanguage}` : '',
+      }));
+
+    return toExplanation({ tokens, summary: `Mock explanation of a ${tokens.length}-word sentence.` }, targetLanguage);
+  }
+}
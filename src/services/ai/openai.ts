@@ -0,0 +1,114 @@
+import { GrammarExplanation, Sentence } from '../../types';
+import { AIProvider, ExtractedParagraph } from './types';
+import {
+  buildExtractionPrompt,
+  buildSplitPrompt,
+  buildTranslationPrompt,
+  buildExplanationPrompt,
+  parseExtraction,
+  parseSentences,
+  parseTranslation,
+  toExplanation,
+  EXTRACTION_JSON_INSTRUCTIONS,
+  TRANSLATION_JSON_INSTRUCTIONS,
+  EXPLANATION_JSON_INSTRUCTIONS,
+} from './prompts';
+
+type ChatContent =
+  | string
+  | Array<
+      | { type: 'text'; text: string }
+      | { type: 'image_url'; image_url: { url: string } }
+    >;
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: ChatContent;
+}
+
+// Talks to any server implementing the OpenAI chat completions API
+// (OpenAI itself, llama.cpp server, Ollama, LM Studio, vLLM, ...)
+export class OpenAICompatibleService implements AIProvider {
+  private baseUrl: string;
+  private apiKey: string;
+  private modelName: string;
+
+  constructor(baseUrl: string, modelName: string, apiKey: string = '') {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.modelName = modelName;
+    this.apiKey = apiKey;
+  }
+
+  private async chat(messages: ChatMessage[], jsonMode: boolean = false): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.modelName,
+        messages,
+        ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Chat completion failed (${response.status}): ${body}`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+
+  async extractParagraphs(imageDataUrl: string, language: string): Promise<ExtractedParagraph[]> {
+    const text = await this.chat(
+      [
+        { role: 'system', content: EXTRACTION_JSON_INSTRUCTIONS },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: buildExtractionPrompt(language) },
+            { type: 'image_url', image_url: { url: imageDataUrl } },
+          ],
+        },
+      ],
+      true
+    );
+
+    return parseExtraction(text);
+  }
+
+  async splitIntoSentences(paragraphText: string, language: string): Promise<string[]> {
+    const text = await this.chat([
+      { role: 'user', content: buildSplitPrompt(paragraphText, language) },
+    ]);
+
+    return parseSentences(text);
+  }
+
+  async translateSentenceAndWords(sentence: string, sourceLanguage: string, targetLanguage: string): Promise<Sentence> {
+    const text = await this.chat(
+      [
+        { role: 'system', content: TRANSLATION_JSON_INSTRUCTIONS },
+        { role: 'user', content: buildTranslationPrompt(sentence, sourceLanguage, targetLanguage) },
+      ],
+      true
+    );
+    return parseTranslation(sentence, text);
+  }
+
+  async explainGrammar(sentence: string, sourceLanguage: string, targetLanguage: string): Promise<GrammarExplanation> {
+    const text = await this.chat(
+      [
+        { role: 'system', content: EXPLANATION_JSON_INSTRUCTIONS },
+        { role: 'user', content: buildExplanationPrompt(sentence, sourceLanguage, targetLanguage) },
+      ],
+      true
+    );
+    return toExplanation(JSON.parse(text), targetLanguage);
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseTranslation } from './prompts';
+
+describe('parseTranslation', () => {
+  it('builds a sentence from a translation response', () => {
+    const sentence = parseTranslation(
+      'Unë lexoj librin.',
+      JSON.stringify({
+        translation: 'I read the book.',
+        words: [
+          { word: 'Unë', meaning: 'I' },
+          { word: 'lexoj', meaning: 'read', lemma: 'lexoj', tense: 'present' },
+          { word: 'librin', meaning: 'the book', lemma: 'libër', case: 'accusative' },
+        ],
+        expressions: [],
+      })
+    );
+
+    expect(sentence.translation).toBe('I read the book.');
+    expect(sentence.tokens?.map((t) => t.key)).toEqual(['unë', 'lexoj', 'librin']);
+    expect(sentence.words.get('librin')).toMatchObject({ lemma: 'libër', grammar: { case: 'accusative' } });
+  });
+
+  it('skips words without the expected shape', () => {
+    const sentence = parseTranslation(
+      'Unë lexoj.',
+      JSON.stringify({ translation: 'I read.', words: [{ word: 'Unë' }, { word: 'lexoj', meaning: 'read' }, 'x'] })
+    );
+    expect(Array.from(sentence.words.keys())).toEqual(['lexoj']);
+  });
+
+  // The processing queue retries the page when translating throws
+  it('throws on a response that is not JSON', () => {
+    expect(() => parseTranslation('Unë lexoj.', 'Sorry, I cannot help with that')).toThrow(/not valid JSON/);
+  });
+});
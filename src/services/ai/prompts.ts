@@ -0,0 +1,277 @@
+import { BoundingBox, GrammarExplanation, GrammarInfo, PhraseInfo, Sentence, TextLine, TokenGrammar, WordInfo } from '../../types';
+import { alignWordSpans, alignPhraseTokens } from '../../utils/tokens';
+import {
+  ExpressionResponse,
+  ExtractedParagraph,
+  ExtractionLineResponse,
+  TranslationResponse,
+  TranslationWordResponse,
+} from './types';
+
+// Prompts shared by every provider so that switching models doesn't change the task
+
+export function buildExtractionPrompt(language: string): string {
+  return `Extract all text from this image. The text is in ${language}.
+
+Please carefully read the text and verify that the extracted words make sense in ${language}. First think of a transcription of the text, next analyze the transcription for errors. For example incorrect characters that don't fit the language, misspellings, incorrect joining of words, etc. If you notice any obvious OCR errors or character misrecognitions, correct them based on the context and what would be valid ${language} words.
+
+Preserve the paragraph structure. For each paragraph give its full text, with words hyphenated across line breaks joined back together, and list its printed lines in order with the text of each line exactly as printed.
+
+Give a bounding box for every paragraph and every line as [ymin, xmin, ymax, xmax], with coordinates normalized to 0-1000 relative to the image.`;
+}
+
+// Describes the expected JSON shape for providers without native schema support
+export const EXTRACTION_JSON_INSTRUCTIONS = `Respond with a JSON object of the form:
+{"paragraphs": [{"text": string, "box": [ymin, xmin, ymax, xmax], "lines": [{"text": string, "box": [ymin, xmin, ymax, xmax]}]}]}`;
+
+export function buildSplitPrompt(paragraphText: string, language: string): string {
+  return `Split this ${language} text into individual sentences. Return each sentence on a new line. Only return the sentences, nothing else.
+
+Text: "${paragraphText}"`;
+}
+
+// Bump when the translation prompt or its response shape changes, so cached
+// answers to the old prompt stop being reused
+export const TRANSLATION_PROMPT_VERSION = 1;
+
+export function buildTranslationPrompt(sentence: string, sourceLanguage: string, targetLanguage: string): string {
+  return `Translate this ${sourceLanguage} sentence to ${targetLanguage} and provide the meaning of each word in context.
+
+List the words in the order they appear in the sentence. Copy each word exactly as it is written in the sentence (same spelling, case and diacritics), without surrounding punctuation or quotes. Keep clitics, contractions and hyphenated words as they are written. For languages written without spaces, split the sentence into words yourself.
+
+For each word also give its lemma (dictionary form, e.g. the infinitive of a verb or the nominative singular indefinite of a noun) and its grammatical info: part of speech, and where applicable case, number and tense. Leave a field empty when it doesn't apply.
+
+Also list multi-word expressions (idioms, phrasal verbs, separable verbs, fixed phrases) whose meaning differs from the meanings of their individual words. For each, give the expression as written, its component words exactly as written in the sentence in order, and its meaning in context. Return an empty list if there are none.
+
+Sentence: "${sentence}"`;
+}
+
+// Describes the expected JSON shape for providers without native schema support
+export const TRANSLATION_JSON_INSTRUCTIONS = `Respond with a JSON object of the form:
+{"translation": string, "words": [{"word": string, "meaning": string, "lemma": string, "partOfSpeech": string, "case": string, "number": string, "tense": string}], "expressions": [{"expression": string, "words": string[], "meaning": string}]}`;
+
+export function buildExplanationPrompt(sentence: string, sourceLanguage: string, targetLanguage: string): string {
+  return `Explain the grammar of this ${sourceLanguage} sentence to a ${targetLanguage} speaker who is learning ${sourceLanguage}. Write the explanation in ${targetLanguage}.
+
+Go through the sentence token by token, in order, copying each token exactly as it is written in the sentence without surrounding punctuation. For each token give:
+- role: what it does in the sentence (e.g. subject, direct object, main verb, auxiliary, preposition, article, adverbial of time)
+- form: how it is inflected (e.g. case, definiteness, number, gender, person, tense, mood, aspect), or an empty string for words that don't inflect
+- note: a short remark on why it takes this form or position (case governed by a preposition, agreement, mood triggered by a conjunction, clitic doubling, ...), or an empty string when there is nothing noteworthy
+
+Then give a summary of how the sentence as a whole is built: its word order, clauses and anything a learner is likely to find surprising.
+
+Sentence: "${sentence}"`;
+}
+
+// Describes the expected JSON shape for providers without native schema support
+export const EXPLANATION_JSON_INSTRUCTIONS = `Respond with a JSON object of the form:
+{"tokens": [{"token": string, "role": string, "form": string, "note": string}], "summary": string}`;
+
+export function parseParagraphs(text: string): string[] {
+  return text
+    .split('\n\n')
+    .map((p: string) => p.trim())
+    .filter((p: string) => p.length > 0);
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// The items of an array in a response that pass the guard
+const arrayOf = <T>(value: unknown, guard: (item: unknown) => item is T): T[] =>
+  Array.isArray(value) ? value.filter(guard) : [];
+
+const isExtractionLine = (value: unknown): value is ExtractionLineResponse =>
+  isObject(value) && isString(value.text);
+
+const isTranslationWord = (value: unknown): value is TranslationWordResponse =>
+  isObject(value) &&
+  isString(value.word) &&
+  isString(value.meaning) &&
+  (value.lemma === undefined || isString(value.lemma));
+
+const isExpression = (value: unknown): value is ExpressionResponse =>
+  isObject(value) &&
+  isString(value.expression) &&
+  isString(value.meaning) &&
+  Array.isArray(value.words) &&
+  value.words.every(isString);
+
+// [ymin, xmin, ymax, xmax] on a 0-1000 grid, as Gemini reports boxes
+function toBoundingBox(value: unknown): BoundingBox | null {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every((n) => typeof n === 'number')) {
+    return null;
+  }
+  const [ymin, xmin, ymax, xmax] = value.map((n) => Math.min(Math.max(n / 1000, 0), 1));
+  if (xmax <= xmin || ymax <= ymin) return null;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+}
+
+function boxAround(boxes: BoundingBox[]): BoundingBox | null {
+  if (boxes.length === 0) return null;
+  const x = Math.min(...boxes.map((b) => b.x));
+  const y = Math.min(...boxes.map((b) => b.y));
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map((b) => b.x + b.width)) - x,
+    height: Math.max(...boxes.map((b) => b.y + b.height)) - y,
+  };
+}
+
+// Parse an extraction response into paragraphs with their image regions.
+// A model that answers with plain text still gives paragraphs, just without regions.
+export function parseExtraction(text: string): ExtractedParagraph[] {
+  let data: unknown = null;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    // Not JSON; handled as plain text below
+  }
+  if (!isObject(data) || !Array.isArray(data.paragraphs)) {
+    return parseParagraphs(text).map((paragraph) => ({ text: paragraph }));
+  }
+
+  return arrayOf(data.paragraphs, isObject)
+    .map((p): ExtractedParagraph => {
+      const lines = arrayOf(p.lines, isExtractionLine)
+        .map((l) => ({ text: l.text, box: toBoundingBox(l.box) }))
+        .filter((l): l is TextLine => l.box !== null);
+      const paragraphText =
+        isString(p.text) && p.text.trim() ? p.text.trim() : lines.map((l) => l.text).join(' ');
+      const box = toBoundingBox(p.box) || boxAround(lines.map((l) => l.box));
+
+      return {
+        text: paragraphText,
+        ...(box ? { box } : {}),
+        ...(lines.length > 0 ? { lines } : {}),
+      };
+    })
+    .filter((p) => p.text.length > 0);
+}
+
+export function parseSentences(text: string): string[] {
+  return text
+    .split('\n')
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+// Keep only the grammatical fields the model actually filled in
+function toGrammar(w: GrammarInfo): { grammar?: GrammarInfo } {
+  const grammar: GrammarInfo = {};
+  (['partOfSpeech', 'case', 'number', 'tense'] as const).forEach((field) => {
+    const value: unknown = w[field];
+    if (isString(value) && value) grammar[field] = value;
+  });
+  return Object.keys(grammar).length > 0 ? { grammar } : {};
+}
+
+// Convert a parsed translation response into a Sentence, skipping any words
+// and expressions that don't have the expected shape
+export function toSentence(sentence: string, data: unknown): Sentence {
+  const response: JsonObject = isObject(data) ? data : {};
+  const translation = isString(response.translation) ? response.translation : '';
+
+  const words = new Map<string, WordInfo>();
+  const surfaceForms: string[] = [];
+  arrayOf(response.words, isTranslationWord).forEach((w) => {
+    if (w.word && w.meaning) {
+      surfaceForms.push(w.word);
+      words.set(w.word.toLowerCase(), {
+        word: w.word,
+        meaning: w.meaning,
+        sentenceTranslation: translation,
+        ...(w.lemma ? { lemma: w.lemma } : {}),
+        ...toGrammar(w)
+      });
+    }
+  });
+
+  const tokens = alignWordSpans(sentence, surfaceForms);
+
+  const phrases: PhraseInfo[] = [];
+  arrayOf(response.expressions, isExpression).forEach((e) => {
+    if (!e.expression || !e.meaning) return;
+    const tokenIndices = alignPhraseTokens(sentence, tokens, e.words);
+    if (tokenIndices) {
+      phrases.push({ phrase: e.expression, meaning: e.meaning, tokenIndices });
+    }
+  });
+
+  return {
+    text: sentence,
+    translation: translation || 'Translation unavailable',
+    words,
+    tokens,
+    phrases
+  };
+}
+
+// Parse a raw translation response. A response that isn't valid JSON throws
+// like a failed request, so the processing queue retries the page.
+export function parseTranslation(sentence: string, text: string): Sentence {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The model returned a translation that is not valid JSON');
+  }
+  return toSentence(sentence, data);
+}
+
+// Convert a parsed explanation response, dropping tokens the model left blank
+export function toExplanation(data: unknown, targetLanguage: string): GrammarExplanation {
+  const response: JsonObject = isObject(data) ? data : {};
+  const text = (value: unknown) => (isString(value) ? value.trim() : '');
+  const tokens: TokenGrammar[] = arrayOf(response.tokens, isObject)
+    .map((t) => ({ token: text(t.token), role: text(t.role), form: text(t.form), note: text(t.note) }))
+    .filter((t) => t.token && (t.role || t.form || t.note));
+
+  if (tokens.length === 0) {
+    throw new Error('The model returned no grammar breakdown');
+  }
+  return { tokens, summary: text(response.summary), language: targetLanguage, createdAt: Date.now() };
+}
+
+// The translation response a Sentence could have been built from, so toSentence
+// can rebuild it against another copy of the text. Words are listed once per
+// occurrence, as the model lists them.
+export function toTranslationData(sentence: Sentence): TranslationResponse {
+  const tokenText = (i: number) => {
+    const token = sentence.tokens?.[i];
+    return token ? sentence.text.slice(token.start, token.end) : '';
+  };
+  const wordEntry = (info: WordInfo, word: string): TranslationWordResponse => ({
+    word,
+    meaning: info.meaning,
+    ...(info.lemma ? { lemma: info.lemma } : {}),
+    ...info.grammar,
+  });
+
+  const tokens = sentence.tokens || [];
+  const aligned = new Set(tokens.map((t) => t.key));
+  const words = [
+    ...tokens.flatMap((t, i) => {
+      const info = sentence.words.get(t.key);
+      return info ? [wordEntry(info, tokenText(i))] : [];
+    }),
+    ...Array.from(sentence.words.entries())
+      .filter(([key]) => !aligned.has(key))
+      .map(([, info]) => wordEntry(info, info.word)),
+  ];
+
+  return {
+    translation: sentence.translation,
+    words,
+    expressions: (sentence.phrases || []).map((p) => ({
+      expression: p.phrase,
+      words: p.tokenIndices.map(tokenText),
+      meaning: p.meaning,
+    })),
+  };
+}
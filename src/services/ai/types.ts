@@ -0,0 +1,39 @@
+import { BoundingBox, GrammarExplanation, GrammarInfo, Sentence, TextLine } from '../../types';
+
+export interface ExtractedParagraph {
+  text: string;
+  box?: BoundingBox; // Missing when the model didn't report where the text is
+  lines?: TextLine[];
+}
+
+// Responses in the shapes the prompts ask for. Models don't always keep to
+// them, so parsed JSON only takes these types once prompts.ts has checked it.
+export interface ExtractionLineResponse {
+  text: string;
+  box?: unknown; // [ymin, xmin, ymax, xmax], checked when converted
+}
+
+export interface TranslationWordResponse extends GrammarInfo {
+  word: string;
+  meaning: string;
+  lemma?: string;
+}
+
+export interface ExpressionResponse {
+  expression: string;
+  words: string[];
+  meaning: string;
+}
+
+export interface TranslationResponse {
+  translation: string;
+  words: TranslationWordResponse[];
+  expressions: ExpressionResponse[];
+}
+
+export interface AIProvider {
+  extractParagraphs(imageDataUrl: string, language: string): Promise<ExtractedParagraph[]>;
+  splitIntoSentences(paragraphText: string, language: string): Promise<string[]>;
+  translateSentenceAndWords(sentence: string, sourceLanguage: string, targetLanguage: string): Promise<Sentence>;
+  explainGrammar(sentence: string, sourceLanguage: string, targetLanguage: string): Promise<GrammarExplanation>;
+}
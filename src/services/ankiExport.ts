@@ -0,0 +1,134 @@
+import { VocabWord } from '../types';
+import { isMasteredWord } from './fsrs';
+import { DeckResolver } from './decks';
+
+export type ExportStatus = 'active' | 'mastered' | 'ignored' | 'all';
+export type ExportCardType = 'basic' | 'cloze';
+
+export interface AnkiExportOptions {
+  language: string; // "all" for every language
+  status: ExportStatus;
+  addedFrom?: string; // YYYY-MM-DD, inclusive
+  addedTo?: string; // YYYY-MM-DD, inclusive
+  includeScheduling: boolean; // Add FSRS due/stability/difficulty columns
+  cardType: ExportCardType;
+}
+
+const BASIC_FIELDS = ['Word', 'Meaning', 'Forms', 'Sentence', 'Translation'];
+const SCHEDULING_FIELDS = ['Due', 'Stability', 'Difficulty'];
+const CLOZE_FIELDS = ['Text', 'Back Extra'];
+
+// Mastery follows each word's deck settings when a resolver is given
+export function filterVocabForExport(
+  words: VocabWord[],
+  options: AnkiExportOptions,
+  deckFor?: DeckResolver
+): VocabWord[] {
+  return words.filter((w) => {
+    if (options.language !== 'all' && w.language !== options.language) return false;
+
+    switch (options.status) {
+      case 'active':
+        if (w.ignored) return false;
+        break;
+      case 'mastered':
+        if (w.ignored || !isMasteredWord(w.fsrsCard, deckFor?.(w).masteryInterval)) return false;
+        break;
+      case 'ignored':
+        if (!w.ignored) return false;
+        break;
+    }
+
+    const added = new Date(w.addedAt).toISOString().split('T')[0];
+    if (options.addedFrom && added < options.addedFrom) return false;
+    if (options.addedTo && added > options.addedTo) return false;
+    return true;
+  });
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Fields can't contain the separator or line breaks
+const toField = (text: string) => text.replace(/[\t\r\n]+/g, ' ');
+
+const escapeRegex = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Wrap the first whole-word occurrence of `word` in the sentence.
+// Returns null when the word can't be found.
+const markWord = (sentence: string, word: string, wrap: (match: string) => string): string | null => {
+  const regex = new RegExp(`(?<![\\p{L}\\p{M}])${escapeRegex(escapeHtml(word))}(?![\\p{L}\\p{M}])`, 'iu');
+  const escaped = escapeHtml(sentence);
+  const match = escaped.match(regex);
+  if (!match || match.index === undefined) return null;
+  return escaped.slice(0, match.index) + wrap(match[0]) + escaped.slice(match.index + match[0].length);
+};
+
+const toTags = (word: VocabWord) =>
+  [word.language.replace(/\s+/g, '_'), ...(word.isPhrase ? ['phrase'] : [])].join(' ');
+
+const formatNumber = (value: unknown) =>
+  typeof value === 'number' ? value.toFixed(2) : '';
+
+function basicRow(word: VocabWord, includeScheduling: boolean): string[] {
+  const context = word.contexts[0];
+  const surface = context?.form || word.word;
+  const sentence = context
+    ? markWord(context.sentenceText, surface, (m) => `<b>${m}</b>`) ?? escapeHtml(context.sentenceText)
+    : '';
+
+  const row = [
+    escapeHtml(word.word),
+    escapeHtml(context?.meaning || ''),
+    escapeHtml((word.forms || []).join(', ')),
+    sentence,
+    escapeHtml(context?.sentenceTranslation || ''),
+  ];
+
+  if (includeScheduling) {
+    row.push(
+      word.fsrsCard?.due ? new Date(word.fsrsCard.due).toISOString().split('T')[0] : '',
+      formatNumber(word.fsrsCard?.stability),
+      formatNumber(word.fsrsCard?.difficulty)
+    );
+  }
+
+  return [...row, toTags(word)];
+}
+
+// One cloze note per context sentence the word was seen in
+function clozeRows(word: VocabWord): string[][] {
+  return word.contexts.flatMap((context) => {
+    const text = markWord(context.sentenceText, context.form || word.word, (m) => `{{c1::${m}::${escapeHtml(context.meaning)}}}`);
+    if (!text) return [];
+    return [[text, escapeHtml(context.sentenceTranslation), toTags(word)]];
+  });
+}
+
+// Build a tab-separated file that Anki's "Import File" understands directly,
+// using header directives for the separator, columns and tag column.
+export function buildAnkiDeck(words: VocabWord[], options: AnkiExportOptions, deckFor?: DeckResolver): string {
+  const filtered = filterVocabForExport(words, options, deckFor);
+  const isCloze = options.cardType === 'cloze';
+
+  const fields = isCloze
+    ? CLOZE_FIELDS
+    : options.includeScheduling
+    ? [...BASIC_FIELDS, ...SCHEDULING_FIELDS]
+    : BASIC_FIELDS;
+  const rows = isCloze
+    ? filtered.flatMap(clozeRows)
+    : filtered.map((w) => basicRow(w, options.includeScheduling));
+
+  // Basic decks have more fields than Anki's stock note type, so let the
+  // user map columns on import; cloze columns match the stock Cloze type.
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    ...(isCloze ? ['#notetype:Cloze'] : []),
+    `#columns:${[...fields, 'Tags'].join('\t')}`,
+    `#tags column:${fields.length + 1}`,
+  ];
+
+  return [...header, ...rows.map((row) => row.map(toField).join('\t'))].join('\n') + '\n';
+}
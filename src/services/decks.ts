@@ -0,0 +1,88 @@
+import { DeckSettings, VocabWord, WordReview } from '../types';
+import { indexedDBService } from './indexedDB';
+import { DEFAULT_MASTERY_INTERVAL } from './fsrs';
+import { vocabKey } from '../utils/vocab';
+import { DEFAULT_CARD_TYPES } from '../utils/cardTypes';
+
+export type DeckOptions = Omit<DeckSettings, 'id' | 'language' | 'bookId'>;
+
+export const DEFAULT_DECK_OPTIONS: DeckOptions = {
+  desiredRetention: 0.9,
+  maximumInterval: 36500,
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+  learningSteps: ['1m', '10m'],
+  masteryInterval: DEFAULT_MASTERY_INTERVAL,
+  cardTypes: DEFAULT_CARD_TYPES,
+};
+
+export const languageDeckId = (language: string) => `language:${language}`;
+export const bookDeckId = (bookId: string) => `book:${bookId}`;
+
+export function defaultDeck(language: string): DeckSettings {
+  return { id: languageDeckId(language), language, ...DEFAULT_DECK_OPTIONS };
+}
+
+// Finds the deck whose settings apply to a word: the deck of the book it was
+// first seen in, else the deck of its language
+export type DeckResolver = (word: VocabWord) => DeckSettings;
+
+export async function loadDeckResolver(): Promise<DeckResolver> {
+  const [decks, pageBookIds] = await Promise.all([
+    indexedDBService.getDeckSettings(),
+    indexedDBService.getPageBookIds(),
+  ]);
+  const decksById = new Map(decks.map((deck) => [deck.id, deck]));
+
+  return (word) => {
+    const firstPageId = word.contexts.find((c) => c.pageId)?.pageId;
+    const bookId = firstPageId ? pageBookIds.get(firstPageId) : undefined;
+    const languageDeck = decksById.get(languageDeckId(word.language));
+    const bookDeck = bookId ? decksById.get(bookDeckId(bookId)) : undefined;
+    if (bookDeck) {
+      // Weights are fitted per language, so book decks share them
+      return bookDeck.weights || !languageDeck?.weights ? bookDeck : { ...bookDeck, weights: languageDeck.weights };
+    }
+    return languageDeck || defaultDeck(word.language);
+  };
+}
+
+// New cards and reviews each deck has left for today. A card counts as new on
+// the day of its first review; other cards reviewed today count once each.
+export function remainingToday(
+  reviews: WordReview[],
+  words: VocabWord[],
+  deckFor: DeckResolver,
+  today: string
+): Map<string, { newCards: number; reviews: number }> {
+  const wordsByKey = new Map(words.map((w) => [vocabKey(w.word, w.language), w]));
+  const firstReviewed = new Map<string, string>(); // By card: word key and direction
+  const reviewedToday = new Map<string, string>(); // Card -> word key
+  for (const review of reviews) {
+    const wordKey = vocabKey(review.word, review.language);
+    const key = `${wordKey}/${review.cardType || 'recognition'}`;
+    const first = firstReviewed.get(key);
+    if (!first || review.reviewedAt < first) firstReviewed.set(key, review.reviewedAt);
+    if (review.reviewedAt === today) reviewedToday.set(key, wordKey);
+  }
+
+  const remaining = new Map<string, { newCards: number; reviews: number }>();
+  const remainingFor = (deck: DeckSettings) => {
+    if (!remaining.has(deck.id)) {
+      remaining.set(deck.id, { newCards: deck.newCardsPerDay, reviews: deck.reviewsPerDay });
+    }
+    return remaining.get(deck.id)!;
+  };
+
+  for (const [key, wordKey] of reviewedToday) {
+    const word = wordsByKey.get(wordKey);
+    if (!word) continue;
+
+    const left = remainingFor(deckFor(word));
+    if (firstReviewed.get(key) === today) left.newCards--;
+    else left.reviews--;
+  }
+
+  for (const word of words) remainingFor(deckFor(word));
+  return remaining;
+}
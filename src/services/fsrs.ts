@@ -1,4 +1,13 @@
-import { fsrs, Card, Rating, ReviewLog, createEmptyCard, generatorParameters } from 'ts-fsrs';
+import { fsrs, Card, Grade, Rating, ReviewLog, State, StepUnit, createEmptyCard, dateDiffInDays, generatorParameters } from 'ts-fsrs';
+import { DeckSettings } from '../types';
+
+// Interval given to words marked as already known
+const KNOWN_INTERVAL_DAYS = 365;
+
+// Used when no deck settings apply
+export const DEFAULT_MASTERY_INTERVAL = 21;
+
+type Scheduler = ReturnType<typeof fsrs>;
 
 export interface SchedulingInfo {
   rating: Rating;
@@ -7,12 +16,37 @@ export interface SchedulingInfo {
 }
 
 class FSRSService {
-  private f: ReturnType<typeof fsrs>;
+  private f: Scheduler;
+  private replayer: Scheduler;
+  private deckSchedulers = new Map<string, Scheduler>();
 
   constructor() {
     // Initialize FSRS with default parameters
     const params = generatorParameters({ enable_fuzz: true });
     this.f = fsrs(params);
+    // Replays must come out the same on every device, so no fuzz
+    this.replayer = fsrs(generatorParameters({ enable_fuzz: false }));
+  }
+
+  // Schedulers are shared by decks with the same options
+  private schedulerFor(deck?: DeckSettings, fuzz = true): Scheduler {
+    if (!deck) return fuzz ? this.f : this.replayer;
+
+    const key = JSON.stringify([deck.desiredRetention, deck.maximumInterval, deck.learningSteps, deck.weights, fuzz]);
+    let scheduler = this.deckSchedulers.get(key);
+    if (!scheduler) {
+      scheduler = fsrs(
+        generatorParameters({
+          enable_fuzz: fuzz,
+          request_retention: deck.desiredRetention,
+          maximum_interval: deck.maximumInterval,
+          learning_steps: deck.learningSteps as StepUnit[],
+          ...(deck.weights ? { w: deck.weights } : {}),
+        })
+      );
+      this.deckSchedulers.set(key, scheduler);
+    }
+    return scheduler;
   }
 
   // Create a new card for a word
@@ -20,10 +54,30 @@ class FSRSService {
     return createEmptyCard();
   }
 
+  // Calendar days since the card was last reviewed, as FSRS counts them
+  getElapsedDays(card: Card, now: Date = new Date()): number {
+    return card?.last_review ? Math.max(0, dateDiffInDays(new Date(card.last_review), now)) : 0;
+  }
+
+  // A card for a word the learner already knows, scheduled far enough out to count as mastered
+  createKnownCard(): Card {
+    const now = new Date();
+    return {
+      ...createEmptyCard(now),
+      due: new Date(now.getTime() + KNOWN_INTERVAL_DAYS * 24 * 60 * 60 * 1000),
+      stability: KNOWN_INTERVAL_DAYS,
+      difficulty: 1,
+      scheduled_days: KNOWN_INTERVAL_DAYS,
+      reps: 1,
+      state: State.Review,
+      last_review: now,
+    };
+  }
+
   // Review a word and get updated card
-  reviewWord(card: Card, rating: Rating): { card: Card; log: ReviewLog } {
+  reviewWord(card: Card, rating: Rating, deck?: DeckSettings): { card: Card; log: ReviewLog } {
     const now = new Date();
-    const schedulingCards = this.f.repeat(card, now);
+    const schedulingCards = this.schedulerFor(deck).repeat(card, now);
     
     // The repeat function returns an iterable
     // Find the item that matches our rating
@@ -37,6 +91,20 @@ class FSRSService {
     throw new Error(`Rating ${rating} not found in scheduling cards`);
   }
 
+  // Rebuild a card from its review history with its deck's options, on top of
+  // `from` when the card was set other than by a review (e.g. marked as known)
+  replayReviews(reviews: Array<{ rating: number; date: number }>, deck?: DeckSettings, from?: Card): Card {
+    const replayer = this.schedulerFor(deck, false);
+    const sorted = [...reviews].sort((a, b) => a.date - b.date);
+    let card: Card = from || createEmptyCard(sorted.length > 0 ? new Date(sorted[0].date) : new Date());
+
+    for (const review of sorted) {
+      card = replayer.next(card, new Date(review.date), review.rating as Grade).card;
+    }
+
+    return card;
+  }
+
   // Get words that are due for review
   getDueWords(vocabWords: Array<{ word: string; language: string; fsrsCard: Card }>): Array<{ word: string; language: string; fsrsCard: Card }> {
     const now = new Date();
@@ -55,9 +123,9 @@ class FSRSService {
   }
 
   // Get scheduling information for all ratings
-  getSchedulingInfo(card: Card): SchedulingInfo[] {
+  getSchedulingInfo(card: Card, deck?: DeckSettings): SchedulingInfo[] {
     const now = new Date();
-    const schedulingCards = this.f.repeat(card, now);
+    const schedulingCards = this.schedulerFor(deck).repeat(card, now);
     const results: SchedulingInfo[] = [];
     
     for (const item of schedulingCards) {
@@ -94,12 +162,12 @@ class FSRSService {
   }
 
   // Check if a card is mastered
-  isMastered(card: Card): boolean {
+  isMastered(card: Card, masteryInterval: number = DEFAULT_MASTERY_INTERVAL): boolean {
     if (!card) return false;
     
-    // Card must be in Review state (2) and have an interval of at least 21 days
+    // Card must be in Review state (2) and have an interval of at least the mastery interval
     // scheduled_days represents the interval until next review
-    return card.state === 2 && (card.scheduled_days >= 21);
+    return card.state === 2 && (card.scheduled_days >= masteryInterval);
   }
 }
 
@@ -108,7 +176,7 @@ export { Rating } from 'ts-fsrs';
 export type { Card } from 'ts-fsrs';
 
 // Export helper function for use elsewhere
-export const isMasteredWord = (fsrsCard: any): boolean => {
-  return fsrsService.isMastered(fsrsCard);
+export const isMasteredWord = (fsrsCard: any, masteryInterval?: number): boolean => {
+  return fsrsService.isMastered(fsrsCard, masteryInterval);
 };
 
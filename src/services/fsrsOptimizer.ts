@@ -0,0 +1,48 @@
+import { WordReview } from '../types';
+import type { OptimizationResult } from '../utils/fsrsOptimizer';
+
+export interface OptimizerRequest {
+  reviews: WordReview[];
+  weights?: number[];
+}
+
+export type OptimizerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; result: OptimizationResult }
+  | { type: 'error'; message: string };
+
+// Fits FSRS weights to a review log in a worker, so the page stays responsive
+export function runOptimizer(
+  request: OptimizerRequest,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<OptimizationResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/fsrsOptimizer.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(new Error('Optimization cancelled'));
+    };
+    signal?.addEventListener('abort', abort);
+
+    worker.onmessage = (event: MessageEvent<OptimizerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Optimizer failed'));
+    };
+    worker.postMessage(request);
+  });
+}
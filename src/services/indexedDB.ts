@@ -1,6 +1,13 @@
-import { PageData, AppSettings, Book, VocabWord, VocabContext, ReviewSession, DailyStats, WordReview } from '../types';
+import { PageData, AppSettings, Book, VocabWord, VocabContext, ReviewSession, DailyStats, WordReview, ProcessingJob, SyncedRecord, SyncTombstone, SyncChange, SyncState, SearchPosting, PageEdit, SentenceIdChange, DeckSettings, ReviewCardType, GrammarExplanation, CachedTranslation, TranslationCacheStats } from '../types';
 import { applyMigrations, CURRENT_DB_VERSION } from './migrations';
 import { isMasteredWord } from './fsrs';
+import { StoredVocabWord, vocabKey, addVocabContext, mergeVocabWords, lemmaEntryFrom } from '../utils/vocab';
+import { MergeImportPlan, MERGE_STORES, buildMergePlan } from './mergeImport';
+import { buildPagePostings, buildVocabPostings, pageDocId, vocabDocId } from '../utils/search';
+import { remapVocabContexts, sentencesById } from '../utils/pageEdits';
+import { setTypeCard } from '../utils/cardTypes';
+import { hashString } from '../utils/hash';
+import { countDailyReviews } from '../utils/dailyStats';
 
 const DB_NAME = 'LanguagePageTool';
 const DB_VERSION = CURRENT_DB_VERSION;
@@ -11,6 +18,31 @@ const VOCAB_STORE = 'vocab';
 const REVIEW_SESSIONS_STORE = 'reviewSessions';
 const DAILY_STATS_STORE = 'dailyStats';
 const WORD_REVIEWS_STORE = 'wordReviews';
+const PROCESSING_JOBS_STORE = 'processingJobs';
+const SYNC_TOMBSTONES_STORE = 'syncTombstones';
+const SEARCH_INDEX_STORE = 'searchIndex';
+const PAGE_EDITS_STORE = 'pageEdits';
+const DECK_SETTINGS_STORE = 'deckSettings';
+const TRANSLATION_CACHE_STORE = 'translationCache';
+
+// Stores whose records are exchanged with the sync server
+export const SYNCED_STORES = [
+  PAGES_STORE,
+  BOOKS_STORE,
+  VOCAB_STORE,
+  REVIEW_SESSIONS_STORE,
+  DAILY_STATS_STORE,
+  WORD_REVIEWS_STORE,
+  DECK_SETTINGS_STORE,
+];
+
+// Settings records that describe this device rather than the user's data.
+// Backups leave them out, so a restored backup keeps its own sync identity.
+const DEVICE_SETTINGS_KEYS = ['sync_state', 'translation_cache_stats'];
+const isDeviceSetting = (record: { key?: string }) => DEVICE_SETTINGS_KEYS.includes(record.key || '');
+
+// Stamp a record in a synced store so the next sync picks it up
+const touch = <T extends object>(record: T): T & SyncedRecord => ({ ...record, modifiedAt: Date.now() });
 
 class IndexedDBService {
   private db: IDBDatabase | null = null;
@@ -116,24 +148,29 @@ class IndexedDBService {
     });
   }
 
+  // Convert Maps to objects for storage
+  private serializeParagraphs(paragraphs: PageData['paragraphs']): any[] {
+    return paragraphs.map(para => ({
+      sentences: para.sentences.map(s => ({
+        ...s,
+        words: Object.fromEntries(s.words)
+      }))
+    }));
+  }
+
   async savePage(page: PageData): Promise<void> {
     const db = await this.ensureDB();
     
-    // Convert Maps to objects for storage
-    const serializedPage = {
+    const serializedPage = touch({
       ...page,
-      paragraphs: page.paragraphs.map(para => ({
-        sentences: para.sentences.map(s => ({
-          ...s,
-          words: Object.fromEntries(s.words)
-        }))
-      }))
-    };
+      paragraphs: this.serializeParagraphs(page.paragraphs)
+    });
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([PAGES_STORE], 'readwrite');
+      const transaction = db.transaction([PAGES_STORE, SEARCH_INDEX_STORE], 'readwrite');
       const store = transaction.objectStore(PAGES_STORE);
       const request = store.put(serializedPage);
+      this.updateSearchIndex(transaction, PAGES_STORE, page.id, serializedPage);
 
       request.onsuccess = () => {
         // Clean up old pages (keep only 50 most recent)
@@ -169,12 +206,50 @@ class IndexedDBService {
     });
   }
 
-  async deletePage(id: string): Promise<void> {
+  // Cache a grammar explanation on the page's sentence with this id. Resolves
+  // with the updated page, or null when the page no longer exists.
+  async saveSentenceExplanation(
+    pageId: string,
+    sentenceId: string,
+    explanation: GrammarExplanation
+  ): Promise<PageData | null> {
     const db = await this.ensureDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([PAGES_STORE], 'readwrite');
       const store = transaction.objectStore(PAGES_STORE);
+      const request = store.get(pageId);
+      let updated: any = null;
+
+      request.onsuccess = () => {
+        if (!request.result) return;
+        updated = touch({
+          ...request.result,
+          paragraphs: request.result.paragraphs.map((paragraph: any) => ({
+            ...paragraph,
+            sentences: paragraph.sentences.map((sentence: any) =>
+              hashString(sentence.text) === sentenceId ? { ...sentence, explanation } : sentence
+            ),
+          })),
+        });
+        store.put(updated);
+      };
+      transaction.oncomplete = () => resolve(updated ? this.deserializePageData(updated) : null);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async deletePage(id: string): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [PAGES_STORE, SYNC_TOMBSTONES_STORE, SEARCH_INDEX_STORE, PAGE_EDITS_STORE],
+        'readwrite'
+      );
+      const store = transaction.objectStore(PAGES_STORE);
       const request = store.delete(id);
+      this.addTombstone(transaction, PAGES_STORE, id);
+      this.updateSearchIndex(transaction, PAGES_STORE, id, null);
+      this.deletePageEdits(transaction, id);
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -184,7 +259,7 @@ class IndexedDBService {
   private async cleanupOldPages(keepCount: number): Promise<void> {
     const db = await this.ensureDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([PAGES_STORE], 'readwrite');
+      const transaction = db.transaction([PAGES_STORE, SEARCH_INDEX_STORE, PAGE_EDITS_STORE], 'readwrite');
       const store = transaction.objectStore(PAGES_STORE);
       const index = store.index('timestamp');
       const request = index.openCursor(null, 'prev');
@@ -201,8 +276,12 @@ class IndexedDBService {
           }
           cursor.continue();
         } else {
-          // Delete old pages
-          idsToDelete.forEach(id => store.delete(id));
+          // Delete old pages (locally only, so no tombstones)
+          idsToDelete.forEach(id => {
+            store.delete(id);
+            this.updateSearchIndex(transaction, PAGES_STORE, id, null);
+            this.deletePageEdits(transaction, id);
+          });
           resolve();
         }
       };
@@ -258,7 +337,7 @@ class IndexedDBService {
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([BOOKS_STORE], 'readwrite');
       const store = transaction.objectStore(BOOKS_STORE);
-      const request = store.put(book);
+      const request = store.put(touch(book));
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -280,9 +359,10 @@ class IndexedDBService {
   async deleteBook(id: string): Promise<void> {
     const db = await this.ensureDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([BOOKS_STORE], 'readwrite');
+      const transaction = db.transaction([BOOKS_STORE, SYNC_TOMBSTONES_STORE], 'readwrite');
       const store = transaction.objectStore(BOOKS_STORE);
       const request = store.delete(id);
+      this.addTombstone(transaction, BOOKS_STORE, id);
 
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
@@ -291,88 +371,123 @@ class IndexedDBService {
 
   // Vocabulary Methods
 
-  async addVocabWord(word: string, language: string, context: VocabContext, fsrsCard: any): Promise<void> {
+  async addVocabWord(word: string, language: string, context: VocabContext, fsrsCard: any, isPhrase: boolean = false): Promise<void> {
     const db = await this.ensureDB();
-    const key = `${word.toLowerCase()}_${language}`;
+    const key = vocabKey(word, language);
+    // An older entry keyed on the surface form gets folded into the lemma entry
+    const formKey = context.form ? vocabKey(context.form, language) : null;
+    const mergeKey = formKey && formKey !== key ? formKey : null;
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([VOCAB_STORE, DAILY_STATS_STORE], 'readwrite');
+      const transaction = db.transaction(
+        [VOCAB_STORE, DAILY_STATS_STORE, WORD_REVIEWS_STORE, SYNC_TOMBSTONES_STORE, SEARCH_INDEX_STORE],
+        'readwrite'
+      );
       const vocabStore = transaction.objectStore(VOCAB_STORE);
       const dailyStatsStore = transaction.objectStore(DAILY_STATS_STORE);
+      const reviewsStore = transaction.objectStore(WORD_REVIEWS_STORE);
       const getRequest = vocabStore.get(key);
 
       getRequest.onsuccess = () => {
-        const existing = getRequest.result;
-        let vocabWord: VocabWord & { word_language: string };
-        let isNew = false;
+        const existing: StoredVocabWord | undefined = getRequest.result;
 
-        if (existing) {
-          // Update existing word with new context (deduplicate by sentenceId)
-          const contextExists = existing.contexts.some(
-            (c: VocabContext) => c.sentenceId === context.sentenceId
-          );
-          
-          vocabWord = {
-            ...existing,
-            contexts: contextExists 
-              ? existing.contexts 
-              : [...existing.contexts, context],
-          };
-        } else {
-          // Create new word
-          isNew = true;
-          vocabWord = {
-            word: word.toLowerCase(),
-            language,
-            addedAt: Date.now(),
-            ignored: false,
-            fsrsCard,
-            contexts: [context],
-            word_language: key,
-          };
-        }
+        const withFormEntry = (formEntry: StoredVocabWord | undefined) => {
+          let vocabWord: StoredVocabWord;
 
-        const putRequest = vocabStore.put(vocabWord);
-        
-        putRequest.onsuccess = () => {
-          // Update daily stats if this is a new word - within the same transaction
-          if (isNew) {
-            const date = new Date().toISOString().split('T')[0];
-            const statsKey = `${date}_${language}`;
-            const statsGetRequest = dailyStatsStore.get(statsKey);
-            
-            statsGetRequest.onsuccess = () => {
-              let stats = statsGetRequest.result;
-              
-              if (!stats) {
-                stats = {
-                  date,
-                  language,
-                  reviewCount: 0,
-                  wordsAdded: 0,
-                  date_language: statsKey,
-                };
-              }
-              
-              stats.wordsAdded += 1;
-              
-              const statsPutRequest = dailyStatsStore.put(stats);
-              statsPutRequest.onsuccess = () => resolve();
-              statsPutRequest.onerror = () => reject(statsPutRequest.error);
-            };
-            
-            statsGetRequest.onerror = () => reject(statsGetRequest.error);
+          if (existing) {
+            vocabWord = existing;
+          } else if (formEntry) {
+            vocabWord = lemmaEntryFrom(formEntry, word);
           } else {
-            resolve();
+            // Create new word
+            vocabWord = {
+              word: word.toLowerCase(),
+              language,
+              addedAt: Date.now(),
+              ignored: false,
+              ...(isPhrase ? { isPhrase } : {}),
+              fsrsCard,
+              contexts: [],
+              forms: [],
+              word_language: key,
+            };
           }
+
+          if (formEntry) {
+            vocabWord = mergeVocabWords(vocabWord, formEntry);
+            vocabStore.delete(formEntry.word_language);
+            this.addTombstone(transaction, VOCAB_STORE, formEntry.word_language);
+            this.updateSearchIndex(transaction, VOCAB_STORE, formEntry.word_language, null);
+            this.renameWordReviews(reviewsStore, formEntry.word, vocabWord.word, language);
+          }
+
+          // Add the new context (deduplicated by sentenceId and form)
+          vocabWord = addVocabContext(vocabWord, context);
+          const isNew = !existing && !formEntry;
+
+          const putRequest = vocabStore.put(touch(vocabWord));
+          this.updateSearchIndex(transaction, VOCAB_STORE, key, vocabWord);
+
+          putRequest.onsuccess = () => {
+            // Update daily stats if this is a new word - within the same transaction
+            if (isNew) {
+              const date = new Date().toISOString().split('T')[0];
+              const statsKey = `${date}_${language}`;
+              const statsGetRequest = dailyStatsStore.get(statsKey);
+
+              statsGetRequest.onsuccess = () => {
+                let stats = statsGetRequest.result;
+
+                if (!stats) {
+                  stats = {
+                    date,
+                    language,
+                    reviewCount: 0,
+                    wordsAdded: 0,
+                    date_language: statsKey,
+                  };
+                }
+
+                stats.wordsAdded += 1;
+
+                const statsPutRequest = dailyStatsStore.put(touch(stats));
+                statsPutRequest.onsuccess = () => resolve();
+                statsPutRequest.onerror = () => reject(statsPutRequest.error);
+              };
+
+              statsGetRequest.onerror = () => reject(statsGetRequest.error);
+            } else {
+              resolve();
+            }
+          };
+          putRequest.onerror = () => reject(putRequest.error);
         };
-        putRequest.onerror = () => reject(putRequest.error);
+
+        if (mergeKey) {
+          const formRequest = vocabStore.get(mergeKey);
+          formRequest.onsuccess = () => withFormEntry(formRequest.result);
+          formRequest.onerror = () => reject(formRequest.error);
+        } else {
+          withFormEntry(undefined);
+        }
       };
 
       getRequest.onerror = () => reject(getRequest.error);
     });
   }
 
+  // Point the review history of a merged surface form at its lemma
+  private renameWordReviews(store: IDBObjectStore, from: string, to: string, language: string): void {
+    const request = store.index('word_language').openCursor(IDBKeyRange.only([from, language]));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.update(touch({ ...cursor.value, word: to }));
+        cursor.continue();
+      }
+    };
+  }
+
   async getVocabWords(language?: string, includeIgnored: boolean = true): Promise<VocabWord[]> {
     const db = await this.ensureDB();
     
@@ -401,7 +516,13 @@ class IndexedDBService {
     });
   }
 
-  async updateVocabCard(word: string, language: string, fsrsCard: any): Promise<void> {
+  async updateVocabCard(
+    word: string,
+    language: string,
+    fsrsCard: any,
+    masteryInterval?: number,
+    cardType: ReviewCardType = 'recognition'
+  ): Promise<void> {
     const db = await this.ensureDB();
     const key = `${word.toLowerCase()}_${language}`;
 
@@ -414,11 +535,12 @@ class IndexedDBService {
         const existing = getRequest.result;
         if (existing) {
           const oldCard = existing.fsrsCard;
-          existing.fsrsCard = fsrsCard;
-          const putRequest = store.put(existing);
+          const putRequest = store.put(touch(setTypeCard(existing, cardType, fsrsCard)));
           putRequest.onsuccess = async () => {
-            // Check if card became mastered
-            await this.checkAndUpdateMasteredStatus(word, language, oldCard, fsrsCard);
+            // Check if card became mastered; mastery follows the recognition card
+            if (cardType === 'recognition') {
+              await this.checkAndUpdateMasteredStatus(word, language, oldCard, fsrsCard, masteryInterval);
+            }
             resolve();
           };
           putRequest.onerror = () => reject(putRequest.error);
@@ -435,11 +557,12 @@ class IndexedDBService {
     _word: string,
     language: string,
     oldCard: any,
-    newCard: any
+    newCard: any,
+    masteryInterval?: number
   ): Promise<void> {
     // Check if card just became mastered
-    const wasMastered = oldCard && isMasteredWord(oldCard);
-    const isMastered = isMasteredWord(newCard);
+    const wasMastered = oldCard && isMasteredWord(oldCard, masteryInterval);
+    const isMastered = isMasteredWord(newCard, masteryInterval);
     
     // If newly mastered, increment today's mastered count
     if (!wasMastered && isMastered) {
@@ -468,7 +591,7 @@ class IndexedDBService {
             stats.wordsMastered = (stats.wordsMastered || 0) + 1;
           }
           
-          const putRequest = store.put(stats);
+          const putRequest = store.put(touch(stats));
           putRequest.onsuccess = () => resolve();
           putRequest.onerror = () => reject(putRequest.error);
         };
@@ -491,7 +614,7 @@ class IndexedDBService {
         const existing = getRequest.result;
         if (existing) {
           existing.ignored = !existing.ignored;
-          const putRequest = store.put(existing);
+          const putRequest = store.put(touch(existing));
           putRequest.onsuccess = () => resolve();
           putRequest.onerror = () => reject(putRequest.error);
         } else {
@@ -503,6 +626,74 @@ class IndexedDBService {
     });
   }
 
+  // Give words a card for something already known. Existing words keep their
+  // contexts and stop being ignored. Not counted as added or mastered in the stats.
+  async markWordsKnown(
+    entries: Array<{ word: string; context: VocabContext; isPhrase?: boolean }>,
+    language: string,
+    fsrsCard: any
+  ): Promise<void> {
+    const db = await this.ensureDB();
+    const byKey = new Map<string, typeof entries>();
+    for (const entry of entries) {
+      const key = vocabKey(entry.word, language);
+      byKey.set(key, [...(byKey.get(key) || []), entry]);
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([VOCAB_STORE, SEARCH_INDEX_STORE], 'readwrite');
+      const store = transaction.objectStore(VOCAB_STORE);
+
+      for (const [key, keyEntries] of byKey) {
+        const getRequest = store.get(key);
+        getRequest.onsuccess = () => {
+          const existing: StoredVocabWord | undefined = getRequest.result;
+          // Sync merges replay only the reviews made after this
+          const cardSetAt = { ...existing?.cardSetAt, recognition: Date.now() };
+          let vocabWord: StoredVocabWord = existing
+            ? { ...existing, ignored: false, fsrsCard, cardSetAt }
+            : {
+                word: keyEntries[0].word.toLowerCase(),
+                language,
+                addedAt: Date.now(),
+                ignored: false,
+                ...(keyEntries[0].isPhrase ? { isPhrase: true } : {}),
+                fsrsCard,
+                cardSetAt,
+                contexts: [],
+                forms: [],
+                word_language: key,
+              };
+          for (const entry of keyEntries) {
+            vocabWord = addVocabContext(vocabWord, entry.context);
+          }
+
+          store.put(touch(vocabWord));
+          this.updateSearchIndex(transaction, VOCAB_STORE, key, vocabWord);
+        };
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // The word's review history is kept for the stats
+  async deleteVocabWord(word: string, language: string): Promise<void> {
+    const db = await this.ensureDB();
+    const key = vocabKey(word, language);
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([VOCAB_STORE, SYNC_TOMBSTONES_STORE, SEARCH_INDEX_STORE], 'readwrite');
+      transaction.objectStore(VOCAB_STORE).delete(key);
+      this.addTombstone(transaction, VOCAB_STORE, key);
+      this.updateSearchIndex(transaction, VOCAB_STORE, key, null);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async getWordsDueForReview(language?: string): Promise<VocabWord[]> {
     const words = await this.getVocabWords(language, false); // Don't include ignored
     const now = Date.now();
@@ -520,7 +711,7 @@ class IndexedDBService {
     return new Promise((resolve, reject) => {
       const transaction = db.transaction([REVIEW_SESSIONS_STORE, DAILY_STATS_STORE], 'readwrite');
       const store = transaction.objectStore(REVIEW_SESSIONS_STORE);
-      const request = store.put(session);
+      const request = store.put(touch(session));
 
       request.onsuccess = async () => {
         // Update daily stats
@@ -613,7 +804,7 @@ class IndexedDBService {
         
         stats[field] += increment;
         
-        const putRequest = store.put(stats);
+        const putRequest = store.put(touch(stats));
         putRequest.onsuccess = () => resolve();
         putRequest.onerror = () => reject(putRequest.error);
       };
@@ -630,7 +821,7 @@ class IndexedDBService {
       const transaction = db.transaction([WORD_REVIEWS_STORE, DAILY_STATS_STORE], 'readwrite');
       const reviewsStore = transaction.objectStore(WORD_REVIEWS_STORE);
       const dailyStatsStore = transaction.objectStore(DAILY_STATS_STORE);
-      const request = reviewsStore.add(review);
+      const request = reviewsStore.add(touch(review));
       
       request.onsuccess = () => {
         // Update daily stats - within the same transaction
@@ -653,7 +844,7 @@ class IndexedDBService {
           
           stats.reviewCount += 1;
           
-          const statsPutRequest = dailyStatsStore.put(stats);
+          const statsPutRequest = dailyStatsStore.put(touch(stats));
           statsPutRequest.onsuccess = () => resolve();
           statsPutRequest.onerror = () => reject(statsPutRequest.error);
         };
@@ -664,6 +855,62 @@ class IndexedDBService {
     });
   }
 
+  // Takes back a review: the word gets its card from before the review, the
+  // review leaves the log and the day's counters drop by what it added. When
+  // the review ended a session, the saved session is removed as well.
+  async undoWordReview(
+    review: WordReview,
+    previousCard: any,
+    masteryInterval?: number,
+    session?: ReviewSession
+  ): Promise<void> {
+    const db = await this.ensureDB();
+    const key = vocabKey(review.word, review.language);
+    const date = new Date(review.date).toISOString().split('T')[0];
+    const statsKey = `${date}_${review.language}`;
+
+    return new Promise((resolve, reject) => {
+      const stores = [VOCAB_STORE, WORD_REVIEWS_STORE, DAILY_STATS_STORE, SYNC_TOMBSTONES_STORE];
+      if (session) stores.push(REVIEW_SESSIONS_STORE);
+      const transaction = db.transaction(stores, 'readwrite');
+      const vocabStore = transaction.objectStore(VOCAB_STORE);
+      const statsStore = transaction.objectStore(DAILY_STATS_STORE);
+
+      const vocabRequest = vocabStore.get(key);
+      vocabRequest.onsuccess = () => {
+        const existing = vocabRequest.result;
+        if (!existing) return;
+
+        const cardType = review.cardType || 'recognition';
+        const unmastered =
+          cardType === 'recognition' &&
+          isMasteredWord(existing.fsrsCard, masteryInterval) &&
+          !isMasteredWord(previousCard, masteryInterval);
+        vocabStore.put(touch(setTypeCard(existing, cardType, previousCard)));
+
+        const statsRequest = statsStore.get(statsKey);
+        statsRequest.onsuccess = () => {
+          const stats = statsRequest.result;
+          if (!stats) return;
+
+          stats.reviewCount = Math.max(0, stats.reviewCount - 1 - (session?.wordCount || 0));
+          if (unmastered) stats.wordsMastered = Math.max(0, (stats.wordsMastered || 0) - 1);
+          statsStore.put(touch(stats));
+        };
+      };
+
+      transaction.objectStore(WORD_REVIEWS_STORE).delete(review.id);
+      this.addTombstone(transaction, WORD_REVIEWS_STORE, review.id);
+      if (session) {
+        transaction.objectStore(REVIEW_SESSIONS_STORE).delete(session.id);
+        this.addTombstone(transaction, REVIEW_SESSIONS_STORE, session.id);
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   async getWordReviews(language?: string, limit?: number): Promise<WordReview[]> {
     const db = await this.ensureDB();
     return new Promise((resolve, reject) => {
@@ -692,6 +939,532 @@ class IndexedDBService {
     });
   }
 
+  // Page Edit Methods
+
+  // Save an edited page with its undo record, moving vocab contexts from the
+  // sentences that were replaced to the ones that replaced them
+  async savePageEdit(page: PageData, edit: PageEdit): Promise<void> {
+    const db = await this.ensureDB();
+    const serializedPage = touch({ ...page, paragraphs: this.serializeParagraphs(page.paragraphs) });
+    const serializedEdit = {
+      ...edit,
+      before: { ...edit.before, paragraphs: this.serializeParagraphs(edit.before.paragraphs) },
+    };
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PAGES_STORE, PAGE_EDITS_STORE, VOCAB_STORE, SEARCH_INDEX_STORE], 'readwrite');
+      transaction.objectStore(PAGES_STORE).put(serializedPage);
+      this.updateSearchIndex(transaction, PAGES_STORE, page.id, serializedPage);
+      transaction.objectStore(PAGE_EDITS_STORE).put(serializedEdit);
+      this.remapPageContexts(transaction, page.id, edit.sentenceChanges, sentencesById(page.paragraphs));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Edit history of a page, newest first
+  async getPageEdits(pageId: string): Promise<PageEdit[]> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PAGE_EDITS_STORE], 'readonly');
+      const request = transaction.objectStore(PAGE_EDITS_STORE).index('pageId').getAll(pageId);
+
+      request.onsuccess = () => {
+        const edits: PageEdit[] = (request.result || []).map((edit: PageEdit) => ({
+          ...edit,
+          before: this.deserializePageData(edit.before),
+        }));
+        resolve(edits.sort((a, b) => b.editedAt - a.editedAt));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Put the page back the way it was before its latest edit, contexts included.
+  // Resolves with the restored page, or null if there was nothing to undo.
+  async undoPageEdit(pageId: string): Promise<PageData | null> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PAGES_STORE, PAGE_EDITS_STORE, VOCAB_STORE, SEARCH_INDEX_STORE], 'readwrite');
+      const pagesStore = transaction.objectStore(PAGES_STORE);
+      const editsStore = transaction.objectStore(PAGE_EDITS_STORE);
+      let restored: any = null;
+
+      const editsRequest = editsStore.index('pageId').getAll(pageId);
+      editsRequest.onsuccess = () => {
+        const edits: PageEdit[] = editsRequest.result || [];
+        const latest = edits.sort((a, b) => b.editedAt - a.editedAt)[0];
+        if (!latest) return;
+
+        const pageRequest = pagesStore.get(pageId);
+        pageRequest.onsuccess = () => {
+          if (!pageRequest.result) return;
+
+          restored = touch({ ...pageRequest.result, ...latest.before });
+          pagesStore.put(restored);
+          this.updateSearchIndex(transaction, PAGES_STORE, pageId, restored);
+          editsStore.delete(latest.id);
+
+          const reversed = latest.sentenceChanges.map((change) => ({ from: change.to, to: change.from }));
+          this.remapPageContexts(transaction, pageId, reversed, sentencesById(restored.paragraphs));
+        };
+      };
+
+      transaction.oncomplete = () => resolve(restored ? this.deserializePageData(restored) : null);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private remapPageContexts(
+    transaction: IDBTransaction,
+    pageId: string,
+    changes: SentenceIdChange[],
+    sentences: Map<string, { text: string; translation: string }>
+  ): void {
+    if (changes.length === 0) return;
+
+    const request = transaction.objectStore(VOCAB_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      const remapped = remapVocabContexts(cursor.value as StoredVocabWord, pageId, changes, sentences);
+      if (remapped) {
+        cursor.update(touch(remapped));
+        this.updateSearchIndex(transaction, VOCAB_STORE, remapped.word_language, remapped);
+      }
+      cursor.continue();
+    };
+  }
+
+  // Edit history is local to this device and goes with its page
+  private deletePageEdits(transaction: IDBTransaction, pageId: string): void {
+    const request = transaction.objectStore(PAGE_EDITS_STORE).index('pageId').openKeyCursor(IDBKeyRange.only(pageId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        transaction.objectStore(PAGE_EDITS_STORE).delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  }
+
+  // Review deck settings
+  async getDeckSettings(): Promise<DeckSettings[]> {
+    return this.getAllFromStore(DECK_SETTINGS_STORE);
+  }
+
+  async saveDeckSettings(deck: DeckSettings): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DECK_SETTINGS_STORE], 'readwrite');
+      const request = transaction.objectStore(DECK_SETTINGS_STORE).put(touch(deck));
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // The deck falls back to its language's settings, or the defaults
+  async deleteDeckSettings(id: string): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DECK_SETTINGS_STORE, SYNC_TOMBSTONES_STORE], 'readwrite');
+      const request = transaction.objectStore(DECK_SETTINGS_STORE).delete(id);
+      this.addTombstone(transaction, DECK_SETTINGS_STORE, id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Book of each page that belongs to one, without deserializing the pages
+  async getPageBookIds(): Promise<Map<string, string>> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PAGES_STORE], 'readonly');
+      const request = transaction.objectStore(PAGES_STORE).openCursor();
+      const bookIds = new Map<string, string>();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          if (cursor.value.bookId) bookIds.set(cursor.value.id, cursor.value.bookId);
+          cursor.continue();
+        } else {
+          resolve(bookIds);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Translation cache
+
+  // Cached translation under this key, if any. Every lookup counts as a hit or
+  // a miss in the stats shown in settings.
+  async lookupTranslation(key: string): Promise<CachedTranslation | null> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TRANSLATION_CACHE_STORE, SETTINGS_STORE], 'readwrite');
+      const request = transaction.objectStore(TRANSLATION_CACHE_STORE).get(key);
+      let entry: CachedTranslation | null = null;
+
+      request.onsuccess = () => {
+        entry = request.result || null;
+        const settingsStore = transaction.objectStore(SETTINGS_STORE);
+        const statsRequest = settingsStore.get('translation_cache_stats');
+        statsRequest.onsuccess = () => {
+          const stats = statsRequest.result?.value || { hits: 0, misses: 0 };
+          settingsStore.put({
+            key: 'translation_cache_stats',
+            value: entry ? { ...stats, hits: stats.hits + 1 } : { ...stats, misses: stats.misses + 1 },
+          });
+        };
+      };
+      transaction.oncomplete = () => resolve(entry);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async saveCachedTranslation(entry: CachedTranslation): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TRANSLATION_CACHE_STORE], 'readwrite');
+      const request = transaction.objectStore(TRANSLATION_CACHE_STORE).put(entry);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getTranslationCacheStats(): Promise<TranslationCacheStats> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TRANSLATION_CACHE_STORE, SETTINGS_STORE], 'readonly');
+      const countRequest = transaction.objectStore(TRANSLATION_CACHE_STORE).count();
+      const statsRequest = transaction.objectStore(SETTINGS_STORE).get('translation_cache_stats');
+
+      transaction.oncomplete = () =>
+        resolve({ hits: 0, misses: 0, ...statsRequest.result?.value, entries: countRequest.result });
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Empties the cache and starts the hit and miss counts over
+  async clearTranslationCache(): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TRANSLATION_CACHE_STORE, SETTINGS_STORE], 'readwrite');
+      transaction.objectStore(TRANSLATION_CACHE_STORE).clear();
+      transaction.objectStore(SETTINGS_STORE).delete('translation_cache_stats');
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Processing Job Methods
+
+  async saveProcessingJob(job: ProcessingJob): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PROCESSING_JOBS_STORE], 'readwrite');
+      const store = transaction.objectStore(PROCESSING_JOBS_STORE);
+      const request = store.put(job);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getProcessingJobs(): Promise<ProcessingJob[]> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PROCESSING_JOBS_STORE], 'readonly');
+      const store = transaction.objectStore(PROCESSING_JOBS_STORE);
+      const index = store.index('createdAt');
+      const request = index.getAll(); // Oldest first
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getProcessingJob(id: string): Promise<ProcessingJob | null> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PROCESSING_JOBS_STORE], 'readonly');
+      const store = transaction.objectStore(PROCESSING_JOBS_STORE);
+      const request = store.get(id);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteProcessingJob(id: string): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PROCESSING_JOBS_STORE], 'readwrite');
+      const store = transaction.objectStore(PROCESSING_JOBS_STORE);
+      const request = store.delete(id);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Sync Methods
+
+  private addTombstone(transaction: IDBTransaction, storeName: string, key: string): void {
+    const tombstone: SyncTombstone = { id: `${storeName}/${key}`, store: storeName, key, deletedAt: Date.now() };
+    transaction.objectStore(SYNC_TOMBSTONES_STORE).put(tombstone);
+  }
+
+  async getSyncState(): Promise<SyncState> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SETTINGS_STORE], 'readonly');
+      const store = transaction.objectStore(SETTINGS_STORE);
+      const request = store.get('sync_state');
+
+      request.onsuccess = () => {
+        resolve(
+          request.result?.value || {
+            deviceId: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
+            cursor: 0,
+            lastPushedAt: 0,
+          }
+        );
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveSyncState(state: SyncState): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SETTINGS_STORE], 'readwrite');
+      const store = transaction.objectStore(SETTINGS_STORE);
+      const request = store.put({ key: 'sync_state', value: state });
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Records and deletes in synced stores modified locally after `since`
+  async getChangesSince(since: number): Promise<SyncChange[]> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([...SYNCED_STORES, SYNC_TOMBSTONES_STORE], 'readonly');
+      const range = IDBKeyRange.lowerBound(since, true);
+      const found: SyncChange[] = [];
+
+      for (const storeName of SYNCED_STORES) {
+        const store = transaction.objectStore(storeName);
+        const keyPath = store.keyPath as string;
+        const request = store.index('modifiedAt').getAll(range);
+        request.onsuccess = () => {
+          for (const record of request.result) {
+            found.push({ store: storeName, key: record[keyPath], modifiedAt: record.modifiedAt, record });
+          }
+        };
+      }
+
+      const tombstonesRequest = transaction.objectStore(SYNC_TOMBSTONES_STORE).index('deletedAt').getAll(range);
+      tombstonesRequest.onsuccess = () => {
+        for (const tombstone of tombstonesRequest.result as SyncTombstone[]) {
+          found.push({ store: tombstone.store, key: tombstone.key, modifiedAt: tombstone.deletedAt, deleted: true });
+        }
+      };
+
+      // A record deleted and re-created (or the reverse) only sends its latest state
+      transaction.oncomplete = () => {
+        const changes = new Map<string, SyncChange>();
+        for (const change of found) {
+          const id = `${change.store}/${change.key}`;
+          const existing = changes.get(id);
+          if (!existing || change.modifiedAt > existing.modifiedAt) {
+            changes.set(id, change);
+          }
+        }
+        resolve(Array.from(changes.values()));
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getSyncRecords(storeName: string, keys: string[]): Promise<Map<string, any>> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([storeName], 'readonly');
+      const store = transaction.objectStore(storeName);
+      const records = new Map<string, any>();
+
+      for (const key of keys) {
+        const request = store.get(key);
+        request.onsuccess = () => {
+          if (request.result) records.set(key, request.result);
+        };
+      }
+
+      transaction.oncomplete = () => resolve(records);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Write changes pulled from the sync server as they are, without restamping
+  async applySyncChanges(changes: SyncChange[]): Promise<void> {
+    if (changes.length === 0) return;
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([...SYNCED_STORES, SYNC_TOMBSTONES_STORE, SEARCH_INDEX_STORE], 'readwrite');
+      const tombstones = transaction.objectStore(SYNC_TOMBSTONES_STORE);
+
+      for (const change of changes) {
+        const store = transaction.objectStore(change.store);
+        if (change.deleted) {
+          store.delete(change.key);
+        } else {
+          store.put(change.record);
+        }
+        this.updateSearchIndex(transaction, change.store, change.key, change.deleted ? null : change.record);
+        // The server copy supersedes any local delete of the same record
+        tombstones.delete(`${change.store}/${change.key}`);
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getWordReviewsForWord(word: string, language: string): Promise<WordReview[]> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([WORD_REVIEWS_STORE], 'readonly');
+      const store = transaction.objectStore(WORD_REVIEWS_STORE);
+      const request = store.index('word_language').getAll(IDBKeyRange.only([word, language]));
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Recount reviewCount for the given daily stats keys from the review log and
+  // sessions, so reviews made on several devices on the same day all count
+  async recountDailyReviews(statsKeys: string[]): Promise<void> {
+    if (statsKeys.length === 0) return;
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DAILY_STATS_STORE, WORD_REVIEWS_STORE, REVIEW_SESSIONS_STORE], 'readwrite');
+      const statsStore = transaction.objectStore(DAILY_STATS_STORE);
+      const reviewsByDate = transaction.objectStore(WORD_REVIEWS_STORE).index('date');
+      const sessionsByDate = transaction.objectStore(REVIEW_SESSIONS_STORE).index('date');
+
+      for (const statsKey of statsKeys) {
+        const [date, ...rest] = statsKey.split('_');
+        const language = rest.join('_');
+        const dayStart = new Date(`${date}T00:00:00.000Z`).getTime();
+        const day = IDBKeyRange.bound(dayStart, dayStart + 86400000, false, true);
+        const reviewsRequest = reviewsByDate.getAll(day);
+
+        reviewsRequest.onsuccess = () => {
+          const sessionsRequest = sessionsByDate.getAll(day);
+          sessionsRequest.onsuccess = () => {
+            const reviewCount =
+              countDailyReviews(reviewsRequest.result, sessionsRequest.result).get(statsKey)?.reviewCount || 0;
+            const statsRequest = statsStore.get(statsKey);
+            statsRequest.onsuccess = () => {
+              const stats = statsRequest.result || {
+                date,
+                language,
+                reviewCount: 0,
+                wordsAdded: 0,
+                wordsMastered: 0,
+                date_language: statsKey,
+              };
+              if (stats.reviewCount !== reviewCount) {
+                statsStore.put(touch({ ...stats, reviewCount }));
+              }
+            };
+          };
+        };
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Search Methods
+
+  // Replace a document's postings in the search index
+  private reindexDocument(transaction: IDBTransaction, docId: string, postings: SearchPosting[]): void {
+    const store = transaction.objectStore(SEARCH_INDEX_STORE);
+    const request = store.index('docId').getAllKeys(IDBKeyRange.only(docId));
+    request.onsuccess = () => {
+      request.result.forEach(key => store.delete(key));
+      postings.forEach(posting => store.put(posting));
+    };
+  }
+
+  // Keep the search index in step with a page or vocab write (null record for deletes)
+  private updateSearchIndex(transaction: IDBTransaction, storeName: string, key: string, record: any | null): void {
+    if (storeName === PAGES_STORE) {
+      this.reindexDocument(transaction, pageDocId(key), record ? buildPagePostings(record) : []);
+    } else if (storeName === VOCAB_STORE) {
+      this.reindexDocument(transaction, vocabDocId(key), record ? buildVocabPostings(record) : []);
+    }
+  }
+
+  async rebuildSearchIndex(): Promise<void> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PAGES_STORE, VOCAB_STORE, SEARCH_INDEX_STORE], 'readwrite');
+      const searchStore = transaction.objectStore(SEARCH_INDEX_STORE);
+      searchStore.clear();
+
+      const pagesRequest = transaction.objectStore(PAGES_STORE).getAll();
+      pagesRequest.onsuccess = () => {
+        pagesRequest.result.forEach(page => buildPagePostings(page).forEach(p => searchStore.put(p)));
+      };
+      const vocabRequest = transaction.objectStore(VOCAB_STORE).getAll();
+      vocabRequest.onsuccess = () => {
+        vocabRequest.result.forEach(word => buildVocabPostings(word).forEach(p => searchStore.put(p)));
+      };
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Postings for each term. Terms of three or more letters also match as prefixes,
+  // so "shkoll" finds "shkollë" and "shkollat".
+  async searchTerms(terms: string[]): Promise<SearchPosting[][]> {
+    const db = await this.ensureDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SEARCH_INDEX_STORE], 'readonly');
+      const index = transaction.objectStore(SEARCH_INDEX_STORE).index('term');
+      const results: SearchPosting[][] = terms.map(() => []);
+
+      terms.forEach((term, i) => {
+        const range = term.length >= 3 ? IDBKeyRange.bound(term, `${term}\uffff`) : IDBKeyRange.only(term);
+        const request = index.getAll(range);
+        request.onsuccess = () => {
+          results[i] = request.result;
+        };
+      });
+
+      transaction.oncomplete = () => resolve(results);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   // Data Management Methods
 
   async exportAllData(): Promise<string> {
@@ -703,6 +1476,7 @@ class IndexedDBService {
       reviewSessions: [],
       dailyStats: [],
       wordReviews: [],
+      deckSettings: [],
     };
 
     const storeNames = [
@@ -713,11 +1487,12 @@ class IndexedDBService {
       REVIEW_SESSIONS_STORE,
       DAILY_STATS_STORE,
       WORD_REVIEWS_STORE,
+      DECK_SETTINGS_STORE,
     ];
 
     for (const storeName of storeNames) {
       const storeData = await this.getAllFromStore(storeName);
-      data[storeName] = storeData;
+      data[storeName] = storeName === SETTINGS_STORE ? storeData.filter((r) => !isDeviceSetting(r)) : storeData;
     }
 
     // Add metadata
@@ -743,7 +1518,7 @@ class IndexedDBService {
     });
   }
 
-  async importAllData(jsonData: string): Promise<void> {
+  private parseExportData(jsonData: string): Record<string, any[]> {
     let importData;
     try {
       importData = JSON.parse(jsonData);
@@ -755,6 +1530,12 @@ class IndexedDBService {
       throw new Error('Invalid export format');
     }
 
+    return importData.data;
+  }
+
+  async importAllData(jsonData: string): Promise<void> {
+    const data = this.parseExportData(jsonData);
+
     const storeNames = [
       PAGES_STORE,
       SETTINGS_STORE,
@@ -763,11 +1544,16 @@ class IndexedDBService {
       REVIEW_SESSIONS_STORE,
       DAILY_STATS_STORE,
       WORD_REVIEWS_STORE,
+      DECK_SETTINGS_STORE,
     ];
 
+    // Keep this device's own sync state and cache counters, whatever the backup holds
+    const deviceSettings = (await this.getAllFromStore(SETTINGS_STORE)).filter(isDeviceSetting);
+    data[SETTINGS_STORE] = [...(data[SETTINGS_STORE] || []).filter((r) => !isDeviceSetting(r)), ...deviceSettings];
+
     // Import data for each store
     for (const storeName of storeNames) {
-      const storeData = importData.data[storeName] || [];
+      const storeData = data[storeName] || [];
       if (storeData.length > 0) {
         await this.importToStore(storeName, storeData);
       } else {
@@ -775,6 +1561,41 @@ class IndexedDBService {
         await this.clearStore(storeName);
       }
     }
+
+    // Undo history refers to the pages that were just replaced
+    await this.clearStore(PAGE_EDITS_STORE);
+    await this.rebuildSearchIndex();
+  }
+
+  // Dry run of a merge import: compares the backup with local data without writing
+  async planMergeImport(jsonData: string): Promise<MergeImportPlan> {
+    const incoming = this.parseExportData(jsonData);
+    const local: Record<string, any[]> = {};
+    for (const storeName of MERGE_STORES) {
+      local[storeName] = await this.getAllFromStore(storeName);
+    }
+    return buildMergePlan(local, incoming);
+  }
+
+  // Write a merge plan in a single transaction, so a failure leaves local data untouched
+  async applyMergeImport(plan: MergeImportPlan): Promise<void> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([...MERGE_STORES, SEARCH_INDEX_STORE], 'readwrite');
+
+      for (const storeName of MERGE_STORES) {
+        const store = transaction.objectStore(storeName);
+        for (const record of plan.records[storeName]) {
+          const request = store.put(touch(record));
+          request.onsuccess = () => this.updateSearchIndex(transaction, storeName, String(request.result), record);
+        }
+      }
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
   }
 
   private async importToStore(storeName: string, data: any[]): Promise<void> {
@@ -803,6 +1624,9 @@ class IndexedDBService {
           if (storeName === PAGES_STORE && item.paragraphs) {
             processedItem = this.deserializePageData(item);
           }
+          if (SYNCED_STORES.includes(storeName)) {
+            processedItem = touch(processedItem);
+          }
           
           const addRequest = store.add(processedItem);
           
@@ -866,6 +1690,12 @@ class IndexedDBService {
       REVIEW_SESSIONS_STORE,
       DAILY_STATS_STORE,
       WORD_REVIEWS_STORE,
+      PROCESSING_JOBS_STORE,
+      SYNC_TOMBSTONES_STORE,
+      SEARCH_INDEX_STORE,
+      PAGE_EDITS_STORE,
+      DECK_SETTINGS_STORE,
+      TRANSLATION_CACHE_STORE,
     ];
 
     return new Promise((resolve) => {
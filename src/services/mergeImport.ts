@@ -0,0 +1,210 @@
+import { Book, DailyStats, PageData, ReviewSession, SyncedRecord, WordReview } from '../types';
+import { StoredVocabWord, unionVocabWords } from '../utils/vocab';
+import { countDailyReviews } from '../utils/dailyStats';
+
+export type MergeStoreName = 'pages' | 'books' | 'vocab' | 'reviewSessions' | 'wordReviews' | 'dailyStats';
+
+export const MERGE_STORES: MergeStoreName[] = ['pages', 'books', 'vocab', 'reviewSessions', 'wordReviews', 'dailyStats'];
+
+export interface MergeStoreSummary {
+  added: number; // Only in the backup
+  updated: number; // In both; the merged record differs from the local one
+  conflicted: number; // Both sides changed the same record and one had to win
+}
+
+// Pages as stored, with each sentence's words as a plain object rather than a Map
+export type StoredPage = Omit<PageData, 'paragraphs'> & { paragraphs: unknown[] };
+
+export type StoredDailyStats = DailyStats & { date_language: string };
+
+// Records of each store, as read from IndexedDB or a backup
+export interface MergeRecords {
+  pages: StoredPage[];
+  books: Book[];
+  vocab: StoredVocabWord[];
+  reviewSessions: ReviewSession[];
+  wordReviews: WordReview[];
+  dailyStats: StoredDailyStats[];
+}
+
+export interface MergeImportPlan {
+  summary: Record<MergeStoreName, MergeStoreSummary>;
+  // Records to write; anything not listed stays as it is locally
+  records: MergeRecords;
+}
+
+type BackupData = Partial<MergeRecords>;
+
+// modifiedAt is sync bookkeeping, not content
+const sameRecord = (a: SyncedRecord, b: SyncedRecord) =>
+  JSON.stringify({ ...a, modifiedAt: undefined }) === JSON.stringify({ ...b, modifiedAt: undefined });
+
+// Cards are stored serialized, so last_review may be a string
+const lastReviewTime = (card?: { last_review?: Date | string }) =>
+  card?.last_review ? new Date(card.last_review).getTime() : 0;
+
+const emptySummary = (): MergeStoreSummary => ({ added: 0, updated: 0, conflicted: 0 });
+
+// Union by key. `resolve` returns the record to keep and whether the two sides conflicted.
+function mergeByKey<T extends SyncedRecord>(
+  local: T[],
+  incoming: T[],
+  keyOf: (record: T) => string,
+  resolve: (local: T, incoming: T) => { record: T; conflicted: boolean }
+): { summary: MergeStoreSummary; records: T[]; merged: Map<string, T> } {
+  const summary = emptySummary();
+  const merged = new Map(local.map((r) => [keyOf(r), r]));
+  const records: T[] = [];
+
+  for (const record of incoming) {
+    const key = keyOf(record);
+    const existing = merged.get(key);
+
+    if (!existing) {
+      summary.added++;
+      merged.set(key, record);
+      records.push(record);
+      continue;
+    }
+    if (sameRecord(existing, record)) continue;
+
+    const result = resolve(existing, record);
+    if (result.conflicted) summary.conflicted++;
+    if (!sameRecord(existing, result.record)) {
+      summary.updated++;
+      merged.set(key, result.record);
+      records.push(result.record);
+    }
+  }
+
+  return { summary, records, merged };
+}
+
+// Newer page wins; identical timestamps with different content keep the local copy
+const resolvePage = (local: StoredPage, incoming: StoredPage) => ({
+  record: incoming.timestamp > local.timestamp ? incoming : local,
+  conflicted: incoming.timestamp === local.timestamp,
+});
+
+// Books carry no modification time, so differing copies keep the local one
+const keepLocal = <T>(local: T) => ({ record: local, conflicted: true });
+
+// Contexts and forms are unioned; the card with the latest review wins.
+// It's a conflict when both devices reviewed the word since they last agreed.
+const resolveVocab = (local: StoredVocabWord, incoming: StoredVocabWord) => {
+  const localReviewed = lastReviewTime(local.fsrsCard);
+  const incomingReviewed = lastReviewTime(incoming.fsrsCard);
+  return {
+    record: unionVocabWords(local, incoming),
+    conflicted: localReviewed > 0 && incomingReviewed > 0 && localReviewed !== incomingReviewed,
+  };
+};
+
+const dateOf = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+// Review counts and words added are recomputed from the merged log, sessions
+// and vocab. Mastery isn't recorded per review, so wordsMastered keeps the
+// higher of the two sides.
+function rebuildDailyStats(
+  localStats: DailyStats[],
+  incomingStats: DailyStats[],
+  reviews: WordReview[],
+  sessions: ReviewSession[],
+  vocab: StoredVocabWord[]
+): Map<string, StoredDailyStats> {
+  const stats = new Map<string, StoredDailyStats>();
+  const entry = (date: string, language: string) => {
+    const key = `${date}_${language}`;
+    let stat = stats.get(key);
+    if (!stat) {
+      stat = { date, language, reviewCount: 0, wordsAdded: 0, wordsMastered: 0, date_language: key };
+      stats.set(key, stat);
+    }
+    return stat;
+  };
+
+  for (const count of countDailyReviews(reviews, sessions).values()) {
+    entry(count.date, count.language).reviewCount = count.reviewCount;
+  }
+  for (const word of vocab) {
+    entry(dateOf(word.addedAt), word.language).wordsAdded++;
+  }
+  for (const stat of [...localStats, ...incomingStats]) {
+    if (!stat.wordsMastered) continue;
+    const rebuilt = entry(stat.date, stat.language);
+    rebuilt.wordsMastered = Math.max(rebuilt.wordsMastered, stat.wordsMastered);
+  }
+
+  return stats;
+}
+
+// Work out what a merge import would change without writing anything
+export function buildMergePlan(local: BackupData, incoming: BackupData): MergeImportPlan {
+  const byId = (r: { id: string }) => r.id;
+
+  const pages = mergeByKey(local.pages || [], incoming.pages || [], byId, resolvePage);
+  const books = mergeByKey(local.books || [], incoming.books || [], byId, keepLocal);
+  const vocab = mergeByKey<StoredVocabWord>(
+    local.vocab || [],
+    incoming.vocab || [],
+    (w) => w.word_language,
+    resolveVocab
+  );
+  const reviewSessions = mergeByKey<ReviewSession>(
+    local.reviewSessions || [],
+    incoming.reviewSessions || [],
+    byId,
+    keepLocal
+  );
+  const wordReviews = mergeByKey<WordReview>(local.wordReviews || [], incoming.wordReviews || [], byId, keepLocal);
+
+  const localStats = local.dailyStats || [];
+  const localStatsByKey = new Map(localStats.map((s) => [s.date_language, s]));
+  const rebuiltStats = rebuildDailyStats(
+    localStats,
+    incoming.dailyStats || [],
+    Array.from(wordReviews.merged.values()),
+    Array.from(reviewSessions.merged.values()),
+    Array.from(vocab.merged.values())
+  );
+
+  const statsSummary = emptySummary();
+  const statsRecords: StoredDailyStats[] = [];
+  for (const [key, stat] of rebuiltStats) {
+    const existing = localStatsByKey.get(key);
+    if (
+      existing &&
+      existing.reviewCount === stat.reviewCount &&
+      existing.wordsAdded === stat.wordsAdded &&
+      (existing.wordsMastered || 0) === stat.wordsMastered
+    ) {
+      continue;
+    }
+    if (existing) statsSummary.updated++;
+    else statsSummary.added++;
+    statsRecords.push(stat);
+  }
+
+  return {
+    summary: {
+      pages: pages.summary,
+      books: books.summary,
+      vocab: vocab.summary,
+      reviewSessions: reviewSessions.summary,
+      wordReviews: wordReviews.summary,
+      dailyStats: statsSummary,
+    },
+    records: {
+      pages: pages.records,
+      books: books.records,
+      vocab: vocab.records,
+      reviewSessions: reviewSessions.records,
+      wordReviews: wordReviews.records,
+      dailyStats: statsRecords,
+    },
+  };
+}
+
+export function hasMergeChanges(plan: MergeImportPlan): boolean {
+  return MERGE_STORES.some((store) => plan.records[store].length > 0);
+}
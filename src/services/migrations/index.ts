@@ -5,6 +5,15 @@ import { v3_recovery } from './v3_recovery';
 import { v4_vocab_system } from './v4_vocab_system';
 import { v5_word_reviews } from './v5_word_reviews';
 import { v6_add_mastered_stats } from './v6_add_mastered_stats';
+import { v7_processing_jobs } from './v7_processing_jobs';
+import { v8_vocab_lemmas } from './v8_vocab_lemmas';
+import { v9_sync_tracking } from './v9_sync_tracking';
+import { v10_search_index } from './v10_search_index';
+import { v11_page_edits } from './v11_page_edits';
+import { v12_deck_settings } from './v12_deck_settings';
+import { v13_review_logs } from './v13_review_logs';
+import { v14_translation_cache } from './v14_translation_cache';
+import { v15_sync_deck_settings } from './v15_sync_deck_settings';
 
 // All migrations in order
 export const migrations: Migration[] = [
@@ -14,6 +23,15 @@ export const migrations: Migration[] = [
   v4_vocab_system,
   v5_word_reviews,
   v6_add_mastered_stats,
+  v7_processing_jobs,
+  v8_vocab_lemmas,
+  v9_sync_tracking,
+  v10_search_index,
+  v11_page_edits,
+  v12_deck_settings,
+  v13_review_logs,
+  v14_translation_cache,
+  v15_sync_deck_settings,
 ];
 
 // Current database version (should match the last migration version)
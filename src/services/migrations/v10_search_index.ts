@@ -0,0 +1,37 @@
+import { Migration } from './types';
+import { buildPagePostings, buildVocabPostings } from '../../utils/search';
+
+export const v10_search_index: Migration = {
+  version: 10,
+  description: 'Add full-text search index',
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => {
+    console.log('Running migration v10: Add full-text search index');
+
+    if (db.objectStoreNames.contains('searchIndex')) {
+      console.log('  - searchIndex store already exists');
+      return;
+    }
+
+    const store = db.createObjectStore('searchIndex', { keyPath: 'id' });
+    store.createIndex('term', 'term', { unique: false });
+    store.createIndex('docId', 'docId', { unique: false });
+    console.log('  - Created searchIndex store');
+
+    // Index everything that's already there
+    const pagesRequest = transaction.objectStore('pages').getAll();
+    pagesRequest.onsuccess = () => {
+      for (const page of pagesRequest.result || []) {
+        buildPagePostings(page).forEach((posting) => store.put(posting));
+      }
+      console.log(`  - Indexed ${pagesRequest.result.length} pages`);
+    };
+
+    const vocabRequest = transaction.objectStore('vocab').getAll();
+    vocabRequest.onsuccess = () => {
+      for (const word of vocabRequest.result || []) {
+        buildVocabPostings(word).forEach((posting) => store.put(posting));
+      }
+      console.log(`  - Indexed ${vocabRequest.result.length} vocab words`);
+    };
+  },
+};
@@ -0,0 +1,17 @@
+import { Migration } from './types';
+
+export const v11_page_edits: Migration = {
+  version: 11,
+  description: 'Add page edit history',
+  upgrade: (db: IDBDatabase) => {
+    console.log('Running migration v11: Add page edit history');
+
+    if (!db.objectStoreNames.contains('pageEdits')) {
+      const store = db.createObjectStore('pageEdits', { keyPath: 'id' });
+      store.createIndex('pageId', 'pageId', { unique: false });
+      console.log('  - Created pageEdits store');
+    } else {
+      console.log('  - pageEdits store already exists');
+    }
+  },
+};
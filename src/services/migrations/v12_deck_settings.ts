@@ -0,0 +1,16 @@
+import { Migration } from './types';
+
+export const v12_deck_settings: Migration = {
+  version: 12,
+  description: 'Add review deck settings',
+  upgrade: (db: IDBDatabase) => {
+    console.log('Running migration v12: Add review deck settings');
+
+    if (!db.objectStoreNames.contains('deckSettings')) {
+      db.createObjectStore('deckSettings', { keyPath: 'id' });
+      console.log('  - Created deckSettings store');
+    } else {
+      console.log('  - deckSettings store already exists');
+    }
+  },
+};
@@ -0,0 +1,38 @@
+import { dateDiffInDays } from 'ts-fsrs';
+import { Migration } from './types';
+import { vocabKey } from '../../utils/vocab';
+
+export const v13_review_logs: Migration = {
+  version: 13,
+  description: 'Record elapsed days on existing word reviews',
+  upgrade: (_db: IDBDatabase, transaction: IDBTransaction) => {
+    console.log('Running migration v13: Record elapsed days on word reviews');
+
+    // Reviews now carry the full FSRS log. Older ones only have their date, so
+    // fill in the days since the previous review of the same word.
+    const store = transaction.objectStore('wordReviews');
+    const request = store.index('date').openCursor();
+    const lastReviewed = new Map<string, number>();
+    const now = Date.now();
+    let updated = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        console.log(`  - Recorded elapsed days on ${updated} reviews`);
+        return;
+      }
+
+      const review = cursor.value;
+      const key = vocabKey(review.word, review.language);
+      const previous = lastReviewed.get(key);
+      if (review.elapsedDays === undefined) {
+        const elapsedDays = previous === undefined ? 0 : dateDiffInDays(new Date(previous), new Date(review.date));
+        cursor.update({ ...review, elapsedDays, modifiedAt: now });
+        updated++;
+      }
+      lastReviewed.set(key, review.date);
+      cursor.continue();
+    };
+  },
+};
@@ -0,0 +1,16 @@
+import { Migration } from './types';
+
+export const v14_translation_cache: Migration = {
+  version: 14,
+  description: 'Add translation cache',
+  upgrade: (db: IDBDatabase) => {
+    console.log('Running migration v14: Add translation cache');
+
+    if (!db.objectStoreNames.contains('translationCache')) {
+      db.createObjectStore('translationCache', { keyPath: 'key' });
+      console.log('  - Created translationCache store');
+    } else {
+      console.log('  - translationCache store already exists');
+    }
+  },
+};
@@ -0,0 +1,28 @@
+import { Migration } from './types';
+
+export const v15_sync_deck_settings: Migration = {
+  version: 15,
+  description: 'Track deck settings changes for sync',
+  upgrade: (_db: IDBDatabase, transaction: IDBTransaction) => {
+    console.log('Running migration v15: Track deck settings for sync');
+
+    const store = transaction.objectStore('deckSettings');
+    if (!store.indexNames.contains('modifiedAt')) {
+      store.createIndex('modifiedAt', 'modifiedAt', { unique: false });
+    }
+
+    // Stamp existing decks so the next sync pushes them
+    const now = Date.now();
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        if (!cursor.value.modifiedAt) {
+          cursor.update({ ...cursor.value, modifiedAt: now });
+        }
+        cursor.continue();
+      }
+    };
+    console.log('  - Added modifiedAt index to deckSettings');
+  },
+};
@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+export const v7_processing_jobs: Migration = {
+  version: 7,
+  description: 'Add persistent page processing job queue',
+  upgrade: (db: IDBDatabase) => {
+    console.log('Running migration v7: Add processing jobs store');
+
+    if (!db.objectStoreNames.contains('processingJobs')) {
+      const store = db.createObjectStore('processingJobs', { keyPath: 'id' });
+      store.createIndex('status', 'status', { unique: false });
+      store.createIndex('createdAt', 'createdAt', { unique: false });
+      console.log('  - Created processingJobs store');
+    } else {
+      console.log('  - processingJobs store already exists');
+    }
+  },
+};
@@ -0,0 +1,76 @@
+import { Migration } from './types';
+import { StoredVocabWord, vocabKey, mergeVocabWords, lemmaEntryFrom } from '../../utils/vocab';
+
+export const v8_vocab_lemmas: Migration = {
+  version: 8,
+  description: 'Group vocabulary by lemma and merge surface-form entries',
+  upgrade: (_db: IDBDatabase, transaction: IDBTransaction) => {
+    console.log('Running migration v8: Group vocabulary by lemma');
+
+    const vocabStore = transaction.objectStore('vocab');
+    if (!vocabStore.indexNames.contains('forms')) {
+      vocabStore.createIndex('forms', 'forms', { unique: false, multiEntry: true });
+      console.log('  - Added multiEntry forms index to vocab store');
+    }
+
+    // Learn surface form -> lemma from pages translated with lemma info
+    const pagesRequest = transaction.objectStore('pages').getAll();
+    pagesRequest.onsuccess = () => {
+      const lemmaByForm = new Map<string, string>();
+      for (const page of pagesRequest.result || []) {
+        for (const paragraph of page.paragraphs || []) {
+          for (const sentence of paragraph.sentences || []) {
+            for (const info of Object.values<any>(sentence.words || {})) {
+              if (info.lemma && info.lemma.toLowerCase() !== info.word.toLowerCase()) {
+                lemmaByForm.set(vocabKey(info.word, page.language), info.lemma.toLowerCase());
+              }
+            }
+          }
+        }
+      }
+
+      if (lemmaByForm.size === 0) {
+        console.log('  - No lemma information found, nothing to merge');
+        return;
+      }
+
+      const vocabRequest = vocabStore.getAll();
+      vocabRequest.onsuccess = () => {
+        const entries = new Map<string, StoredVocabWord>();
+        for (const entry of vocabRequest.result as StoredVocabWord[]) {
+          entries.set(entry.word_language, entry);
+        }
+
+        const renamed = new Map<string, string>(); // old key -> lemma
+        for (const [key, entry] of Array.from(entries.entries())) {
+          const lemma = lemmaByForm.get(key);
+          if (!lemma) continue;
+
+          const lemmaKey = vocabKey(lemma, entry.language);
+          const target = entries.get(lemmaKey) || lemmaEntryFrom(entry, lemma);
+          entries.set(lemmaKey, mergeVocabWords(target, entry));
+          entries.delete(key);
+          renamed.set(key, lemma);
+
+          vocabStore.delete(key);
+          vocabStore.put(entries.get(lemmaKey));
+        }
+
+        // Keep the review log attached to the merged entries
+        const reviewsRequest = transaction.objectStore('wordReviews').openCursor();
+        reviewsRequest.onsuccess = () => {
+          const cursor = reviewsRequest.result;
+          if (cursor) {
+            const lemma = renamed.get(vocabKey(cursor.value.word, cursor.value.language));
+            if (lemma) {
+              cursor.update({ ...cursor.value, word: lemma });
+            }
+            cursor.continue();
+          }
+        };
+
+        console.log(`  - Merged ${renamed.size} surface-form entries into lemma entries`);
+      };
+    };
+  },
+};
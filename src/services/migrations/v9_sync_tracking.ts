@@ -0,0 +1,38 @@
+import { Migration } from './types';
+
+const SYNCED_STORES = ['pages', 'books', 'vocab', 'reviewSessions', 'dailyStats', 'wordReviews'];
+
+export const v9_sync_tracking: Migration = {
+  version: 9,
+  description: 'Track modification times and deletes for sync',
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => {
+    console.log('Running migration v9: Track changes for sync');
+
+    if (!db.objectStoreNames.contains('syncTombstones')) {
+      const store = db.createObjectStore('syncTombstones', { keyPath: 'id' });
+      store.createIndex('deletedAt', 'deletedAt', { unique: false });
+      console.log('  - Created syncTombstones store');
+    }
+
+    // Stamp existing records so the first sync pushes everything
+    const now = Date.now();
+    for (const storeName of SYNCED_STORES) {
+      const store = transaction.objectStore(storeName);
+      if (!store.indexNames.contains('modifiedAt')) {
+        store.createIndex('modifiedAt', 'modifiedAt', { unique: false });
+      }
+
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          if (!cursor.value.modifiedAt) {
+            cursor.update({ ...cursor.value, modifiedAt: now });
+          }
+          cursor.continue();
+        }
+      };
+      console.log(`  - Added modifiedAt index to ${storeName}`);
+    }
+  },
+};
@@ -0,0 +1,128 @@
+import { AppSettings, PageData, PageEdit, Paragraph, Sentence, SentenceIdChange } from '../types';
+import { AIService } from './ai';
+import { indexedDBService } from './indexedDB';
+import { hashString } from '../utils/hash';
+import { DraftParagraph, DraftSentence, cleanDraft, splitOriginalText } from '../utils/pageEdits';
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const savedSentences = (page: PageData): Map<string, Sentence> =>
+  new Map(page.paragraphs.flatMap((p) => p.sentences).map((s) => [hashString(s.text), s]));
+
+// Sentences that saving `draft` would send to the AI: new or changed text, or marked for re-translation
+export function countPendingTranslations(page: PageData, draft: DraftParagraph[]): number {
+  const saved = savedSentences(page);
+  return cleanDraft(draft)
+    .flat()
+    .filter((s) => s.retranslate || !saved.has(hashString(s.text))).length;
+}
+
+// Rebuild the sentence draft from corrected original text. Paragraphs whose
+// text didn't change keep their sentences; the others are split again.
+export async function draftFromOriginalText(
+  page: PageData,
+  originalText: string,
+  settings: AppSettings
+): Promise<DraftParagraph[]> {
+  const aiService = new AIService(settings);
+  const saved = savedSentences(page);
+  const oldParagraphTexts = splitOriginalText(page.originalText);
+  const sameLayout = oldParagraphTexts.length === page.paragraphs.length;
+
+  return Promise.all(
+    splitOriginalText(originalText).map(async (paragraphText, i) => {
+      const oldParagraph = sameLayout ? page.paragraphs[i] : undefined;
+      const oldIds = (oldParagraph?.sentences || []).map((s) => hashString(s.text));
+
+      if (oldParagraph && paragraphText === oldParagraphTexts[i]) {
+        return oldParagraph.sentences.map((s, j) => ({ text: s.text, origins: [oldIds[j]] }));
+      }
+
+      const sentenceTexts = await aiService.splitIntoSentences(paragraphText, page.language);
+      return sentenceTexts.map((text): DraftSentence => {
+        const id = hashString(text.trim());
+        // A changed sentence may have come from any sentence of the old paragraph
+        return { text, origins: saved.has(id) ? [id] : oldIds };
+      });
+    })
+  );
+}
+
+// Save the draft as the page's new content. Only new or changed sentences are
+// translated; the rest keep their translation and word info. Resolves with the
+// updated page, or null when the draft doesn't change anything.
+export async function savePageEdit(
+  page: PageData,
+  draft: DraftParagraph[],
+  originalText: string,
+  settings: AppSettings
+): Promise<PageData | null> {
+  const cleaned = cleanDraft(draft);
+  const saved = savedSentences(page);
+  const aiService = new AIService(settings);
+  // Sentences marked for re-translation skip the cache, and their fresh
+  // translation replaces the cached one
+  const retranslator = new AIService(settings, { bypassTranslationCache: true });
+  let translated = 0;
+
+  const paragraphs: Paragraph[] = await Promise.all(
+    cleaned.map(async (sentences) => ({
+      sentences: await Promise.all(
+        sentences.map((sentence) => {
+          const existing = saved.get(hashString(sentence.text));
+          if (existing && !sentence.retranslate) return existing;
+
+          translated++;
+          const translator = sentence.retranslate ? retranslator : aiService;
+          return translator.translateSentenceAndWords(sentence.text, page.language, settings.nativeLanguage);
+        })
+      ),
+    }))
+  );
+
+  const layout = (p: Paragraph[]) => p.map((para) => para.sentences.map((s) => s.text).join('\n')).join('\n\n');
+  const textChanged = originalText !== page.originalText;
+  if (translated === 0 && !textChanged && layout(paragraphs) === layout(page.paragraphs)) {
+    return null;
+  }
+
+  // Replaced sentences point at every sentence their text went into
+  const newIds = new Set(paragraphs.flatMap((p) => p.sentences).map((s) => hashString(s.text)));
+  const changes = new Map<string, SentenceIdChange>();
+  for (const sentence of cleaned.flat()) {
+    const to = hashString(sentence.text);
+    for (const from of sentence.origins) {
+      if (from !== to && !newIds.has(from)) {
+        changes.set(`${from}>${to}`, { from, to });
+      }
+    }
+  }
+
+  const countSentences = (p: Paragraph[]) => p.reduce((sum, para) => sum + para.sentences.length, 0);
+  const summary = [
+    translated > 0 ? `translated ${plural(translated, 'sentence')}` : null,
+    countSentences(paragraphs) !== countSentences(page.paragraphs)
+      ? `${countSentences(page.paragraphs)} → ${plural(countSentences(paragraphs), 'sentence')}`
+      : null,
+    paragraphs.length !== page.paragraphs.length
+      ? `${page.paragraphs.length} → ${plural(paragraphs.length, 'paragraph')}`
+      : null,
+    textChanged ? 'corrected original text' : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+  const description = summary ? summary.charAt(0).toUpperCase() + summary.slice(1) : 'Rearranged sentences';
+
+  const edit: PageEdit = {
+    id: `${Date.now()}_${Math.random()}`,
+    pageId: page.id,
+    editedAt: Date.now(),
+    description,
+    before: { originalText: page.originalText, paragraphs: page.paragraphs },
+    sentenceChanges: Array.from(changes.values()),
+  };
+  const updatedPage: PageData = { ...page, originalText, paragraphs };
+
+  await indexedDBService.savePageEdit(updatedPage, edit);
+  return updatedPage;
+}
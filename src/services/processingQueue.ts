@@ -0,0 +1,207 @@
+import { AppSettings, PageData, ParagraphLayout, ProcessingJob } from '../types';
+import { indexedDBService } from './indexedDB';
+import { AIService, ExtractedParagraph } from './ai';
+import { compressImage } from '../utils/imageCompression';
+import { MAX_ATTEMPTS, findReadyJob, retryDelay, timeUntilNextAttempt } from '../utils/jobRetry';
+
+const DELAY_BETWEEN_JOBS_MS = 500; // Avoid rate limiting between pages
+
+type QueueListener = (jobs: ProcessingJob[]) => void;
+
+// Thrown for failures that retrying won't fix (e.g. an image with no text)
+class PermanentJobError extends Error {}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Keep the regions of paragraphs the model located; undefined if it located none
+const toPageLayout = (extracted: ExtractedParagraph[]): ParagraphLayout[] | undefined => {
+  const layout = extracted
+    .filter((p) => p.box)
+    .map((p) => ({ box: p.box!, lines: p.lines || [] }));
+  return layout.length > 0 ? layout : undefined;
+};
+
+class ProcessingQueueService {
+  private listeners = new Set<QueueListener>();
+  private running = false;
+  private settings: AppSettings | null = null;
+
+  subscribe(listener: QueueListener): () => void {
+    this.listeners.add(listener);
+    indexedDBService.getProcessingJobs().then(listener).catch(() => {});
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    const jobs = await indexedDBService.getProcessingJobs();
+    this.listeners.forEach((listener) => listener(jobs));
+  }
+
+  private async updateJob(job: ProcessingJob, changes: Partial<ProcessingJob>): Promise<ProcessingJob> {
+    const updated = { ...job, ...changes, updatedAt: Date.now() };
+    await indexedDBService.saveProcessingJob(updated);
+    await this.notify();
+    return updated;
+  }
+
+  // Create one queued job per image
+  async enqueue(data: {
+    dataUrls: string[];
+    language: string;
+    targetLanguage: string;
+    bookId?: string;
+    startingPageNumber?: number;
+    bypassTranslationCache?: boolean;
+  }): Promise<void> {
+    const batchId = Date.now().toString();
+    const now = Date.now();
+
+    for (let i = 0; i < data.dataUrls.length; i++) {
+      await indexedDBService.saveProcessingJob({
+        id: `${batchId}_${i}`,
+        batchId,
+        imageDataUrl: data.dataUrls[i],
+        language: data.language,
+        targetLanguage: data.targetLanguage,
+        bookId: data.bookId,
+        pageNumber: data.startingPageNumber ? data.startingPageNumber + i : undefined,
+        ...(data.bypassTranslationCache ? { bypassTranslationCache: true } : {}),
+        status: 'queued',
+        attempts: 0,
+        createdAt: now + i, // Keep upload order
+        updatedAt: now,
+      });
+    }
+
+    await this.notify();
+  }
+
+  // Jobs that were mid-flight when the tab closed go back to the queue
+  async resume(): Promise<boolean> {
+    const jobs = await indexedDBService.getProcessingJobs();
+    for (const job of jobs) {
+      if (job.status === 'extracting' || job.status === 'translating') {
+        await indexedDBService.saveProcessingJob({ ...job, status: 'queued', updatedAt: Date.now() });
+      }
+    }
+    await this.notify();
+    return jobs.some((j) => j.status !== 'saved' && j.status !== 'failed');
+  }
+
+  start(settings: AppSettings): void {
+    this.settings = settings;
+    if (!this.running) {
+      this.run();
+    }
+  }
+
+  async retry(jobId: string, settings: AppSettings): Promise<void> {
+    const job = await indexedDBService.getProcessingJob(jobId);
+    if (!job) return;
+    await this.updateJob(job, { status: 'queued', attempts: 0, error: undefined, nextAttemptAt: undefined });
+    this.start(settings);
+  }
+
+  async drop(jobId: string): Promise<void> {
+    await indexedDBService.deleteProcessingJob(jobId);
+    await this.notify();
+  }
+
+  // Remove finished jobs (and their images) once the user has seen the result
+  async clearSaved(): Promise<void> {
+    const jobs = await indexedDBService.getProcessingJobs();
+    for (const job of jobs.filter((j) => j.status === 'saved')) {
+      await indexedDBService.deleteProcessingJob(job.id);
+    }
+    await this.notify();
+  }
+
+  private async run(): Promise<void> {
+    this.running = true;
+    try {
+      while (this.settings) {
+        const jobs = await indexedDBService.getProcessingJobs();
+        const pending = jobs.filter((j) => j.status !== 'saved' && j.status !== 'failed');
+        if (pending.length === 0) break;
+
+        const now = Date.now();
+        const ready = findReadyJob(pending, now);
+        if (!ready) {
+          // Everything is backing off - wait for the earliest retry
+          await sleep(timeUntilNextAttempt(pending, now));
+          continue;
+        }
+
+        const processed = await this.processJob(ready, this.settings);
+        if (processed) {
+          await sleep(DELAY_BETWEEN_JOBS_MS);
+        }
+      }
+    } catch (error) {
+      console.error('Processing queue stopped unexpectedly:', error);
+    } finally {
+      this.running = false;
+      await this.notify();
+    }
+  }
+
+  private async processJob(job: ProcessingJob, settings: AppSettings): Promise<boolean> {
+    try {
+      const aiService = new AIService(settings, { bypassTranslationCache: job.bypassTranslationCache });
+
+      // Step 1: Extract text (skipped when a previous attempt got this far)
+      let paragraphTexts = job.paragraphTexts;
+      if (!paragraphTexts) {
+        job = await this.updateJob(job, { status: 'extracting' });
+        const extracted = await aiService.extractParagraphs(job.imageDataUrl, job.language);
+        if (extracted.length === 0) {
+          throw new PermanentJobError('No text could be extracted from this image.');
+        }
+        paragraphTexts = extracted.map((p) => p.text);
+        job = await this.updateJob(job, { paragraphTexts, layout: toPageLayout(extracted) });
+      }
+
+      // Step 2: Split and translate
+      job = await this.updateJob(job, { status: 'translating' });
+      const paragraphs = await aiService.processParagraphsConcurrently(
+        paragraphTexts,
+        job.language,
+        job.targetLanguage
+      );
+
+      // Step 3: Save
+      const compressedImage = await compressImage(job.imageDataUrl);
+      const page: PageData = {
+        id: job.id,
+        imageDataUrl: compressedImage,
+        paragraphs,
+        timestamp: Date.now(),
+        originalText: paragraphTexts.join('\n\n'),
+        language: job.language,
+        bookId: job.bookId,
+        pageNumber: job.pageNumber,
+        ...(job.layout ? { layout: job.layout } : {}),
+      };
+      await indexedDBService.savePage(page);
+      await this.updateJob(job, { status: 'saved', pageId: page.id, error: undefined });
+      return true;
+    } catch (error) {
+      console.error(`Error processing job ${job.id}:`, error);
+      const attempts = job.attempts + 1;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const exhausted = error instanceof PermanentJobError || attempts >= MAX_ATTEMPTS;
+
+      await this.updateJob(job, {
+        status: exhausted ? 'failed' : 'queued',
+        attempts,
+        error: message,
+        nextAttemptAt: exhausted ? undefined : Date.now() + retryDelay(attempts),
+      });
+      return false;
+    }
+  }
+}
+
+export const processingQueue = new ProcessingQueueService();
@@ -0,0 +1,155 @@
+import { LANGUAGE_CODES } from '../constants';
+
+export interface SpeechVoice {
+  id: string; // voiceURI, stable across sessions on the same device
+  name: string;
+  lang: string; // BCP 47 tag, e.g. sq-AL
+}
+
+export interface SpeakOptions {
+  voiceId?: string;
+  rate?: number;
+  onEnd?: () => void; // Called when the text finishes or fails to play
+  onInterrupt?: () => void; // Called when a later speak or stop cuts the text off
+}
+
+// What the app needs from a speech synthesizer. The browser's Web Speech API
+// in production; anything with the same shape in tests.
+export interface SpeechEngine {
+  getVoices(): Promise<SpeechVoice[]>;
+  speak(text: string, lang: string, options: SpeakOptions): void;
+  stop(): void;
+}
+
+export const isSpeechSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// Chrome fills in its voice list a moment after the page loads
+const VOICES_TIMEOUT_MS = 1000;
+
+export class WebSpeechEngine implements SpeechEngine {
+  getVoices(): Promise<SpeechVoice[]> {
+    const synth = window.speechSynthesis;
+    const toVoices = () =>
+      synth.getVoices().map((v) => ({ id: v.voiceURI, name: v.name, lang: v.lang.replace('_', '-') }));
+
+    const voices = toVoices();
+    if (voices.length > 0) return Promise.resolve(voices);
+
+    return new Promise((resolve) => {
+      const done = () => {
+        synth.removeEventListener('voiceschanged', done);
+        window.clearTimeout(timer);
+        resolve(toVoices());
+      };
+      const timer = window.setTimeout(done, VOICES_TIMEOUT_MS);
+      synth.addEventListener('voiceschanged', done);
+    });
+  }
+
+  speak(text: string, lang: string, options: SpeakOptions): void {
+    const synth = window.speechSynthesis;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = lang;
+    utterance.rate = options.rate ?? 1;
+    const voice = synth.getVoices().find((v) => v.voiceURI === options.voiceId);
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => options.onEnd?.();
+    utterance.onerror = () => options.onEnd?.();
+
+    synth.cancel();
+    synth.speak(utterance);
+  }
+
+  stop(): void {
+    window.speechSynthesis.cancel();
+  }
+}
+
+// Stands in where the browser has no speech synthesis: no voices, no sound
+export class SilentSpeechEngine implements SpeechEngine {
+  getVoices(): Promise<SpeechVoice[]> {
+    return Promise.resolve([]);
+  }
+
+  speak(): void {}
+
+  stop(): void {}
+}
+
+// Primary subtag, with Norwegian Bokmål voices often tagged as plain "no"
+const primaryTag = (lang: string) => {
+  const tag = lang.split('-')[0].toLowerCase();
+  return tag === 'nb' ? 'no' : tag;
+};
+
+export const languageCode = (language: string) => LANGUAGE_CODES[language] || language;
+
+// Speaks source-language text with the voice and rate chosen in settings.
+// A language without any installed voice stays silent rather than being read
+// out by a voice of another language.
+export class SpeechService {
+  private voiceChoices: Record<string, string> = {};
+  private rate = 1;
+  private playing = 0; // Bumped on every speak and stop, so stale onEnd calls are dropped
+  private interrupt: (() => void) | null = null; // Tells whoever is playing that they were cut off
+
+  constructor(private engine: SpeechEngine) {}
+
+  configure(voiceChoices: Record<string, string> = {}, rate = 1): void {
+    this.voiceChoices = voiceChoices;
+    this.rate = rate;
+  }
+
+  async getVoices(language: string): Promise<SpeechVoice[]> {
+    const tag = primaryTag(languageCode(language));
+    const voices = await this.engine.getVoices();
+    return voices.filter((v) => primaryTag(v.lang) === tag);
+  }
+
+  // The chosen voice while it is still installed, else the first that fits
+  async getVoice(language: string): Promise<SpeechVoice | null> {
+    const voices = await this.getVoices(language);
+    return voices.find((v) => v.id === this.voiceChoices[language]) || voices[0] || null;
+  }
+
+  async canSpeak(language: string): Promise<boolean> {
+    return (await this.getVoice(language)) !== null;
+  }
+
+  // Cuts off anything still playing. Resolves to false, without calling
+  // onEnd, when there is no voice for the language. A voice or rate passed in
+  // overrides the configured one, to try it out.
+  async speak(text: string, language: string, options: SpeakOptions = {}): Promise<boolean> {
+    this.interruptPlaying();
+    const playing = ++this.playing;
+    this.interrupt = options.onInterrupt || null;
+    const voice = options.voiceId ? { id: options.voiceId } : await this.getVoice(language);
+    if (!voice || playing !== this.playing) return false;
+
+    this.engine.speak(text, languageCode(language), {
+      voiceId: voice.id,
+      rate: options.rate ?? this.rate,
+      onEnd: () => {
+        if (playing !== this.playing) return;
+        this.interrupt = null;
+        options.onEnd?.();
+      },
+    });
+    return true;
+  }
+
+  stop(): void {
+    this.interruptPlaying();
+    this.playing++;
+    this.engine.stop();
+  }
+
+  private interruptPlaying(): void {
+    const interrupt = this.interrupt;
+    this.interrupt = null;
+    interrupt?.();
+  }
+}
+
+export const speechService = new SpeechService(isSpeechSupported() ? new WebSpeechEngine() : new SilentSpeechEngine());
@@ -0,0 +1,159 @@
+import { AppSettings, SyncChange, SyncState } from '../types';
+import { indexedDBService, SYNCED_STORES } from './indexedDB';
+import { DeckResolver, loadDeckResolver } from './decks';
+import { StoredVocabWord, replayVocabCards, unionVocabWords } from '../utils/vocab';
+import { dailyStatsKey } from '../utils/dailyStats';
+
+export interface SyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+}
+
+const PUSH_BATCH_SIZE = 200;
+
+const changeId = (change: SyncChange) => `${change.store}/${change.key}`;
+
+
+class SyncService {
+  private running: Promise<SyncResult> | null = null;
+
+  // Pull changes from other devices, reconcile them with local edits, then push.
+  // Calls made while a sync is running share its result.
+  sync(settings: AppSettings): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.run(settings).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async getState(): Promise<SyncState> {
+    return indexedDBService.getSyncState();
+  }
+
+  private async request(settings: AppSettings, path: string, init?: RequestInit): Promise<any> {
+    const baseUrl = (settings.syncUrl || '').replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.syncToken ? { Authorization: `Bearer ${settings.syncToken}` } : {}),
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Sync server error ${response.status}: ${await response.text()}`);
+    }
+    return response.json();
+  }
+
+  private async run(settings: AppSettings): Promise<SyncResult> {
+    if (!settings.syncUrl) {
+      throw new Error('No sync server configured');
+    }
+
+    const state = await indexedDBService.getSyncState();
+    const startedAt = Date.now();
+
+    // The server leaves out changes this device pushed itself
+    const pulled: { changes: SyncChange[]; cursor: number } = await this.request(
+      settings,
+      `/changes?since=${state.cursor}&device=${encodeURIComponent(state.deviceId)}`
+    );
+    const remote = pulled.changes.filter((c) => SYNCED_STORES.includes(c.store));
+    const pending = await indexedDBService.getChangesSince(state.lastPushedAt);
+    const conflicts = await this.applyRemoteChanges(remote, pending);
+
+    // Push local edits, including vocab rewritten while resolving conflicts,
+    // but not the remote records that were just written as they came in
+    const pulledVersions = new Set(remote.map((c) => `${changeId(c)}@${c.modifiedAt}`));
+    const outgoing = (await indexedDBService.getChangesSince(state.lastPushedAt)).filter(
+      (c) => !pulledVersions.has(`${changeId(c)}@${c.modifiedAt}`)
+    );
+    for (let i = 0; i < outgoing.length; i += PUSH_BATCH_SIZE) {
+      await this.request(settings, '/changes', {
+        method: 'POST',
+        body: JSON.stringify({ device: state.deviceId, changes: outgoing.slice(i, i + PUSH_BATCH_SIZE) }),
+      });
+    }
+
+    await indexedDBService.saveSyncState({
+      ...state,
+      cursor: pulled.cursor,
+      lastPushedAt: startedAt,
+      lastSyncedAt: Date.now(),
+    });
+
+    return { pulled: remote.length, pushed: outgoing.length, conflicts };
+  }
+
+  // Remote changes are applied unless the record was also edited locally since the
+  // last push. Then the later write wins, except for vocab, where contexts are
+  // unioned and the FSRS card is rebuilt by replaying the merged review log
+  // on top of the latest card set other than by a review.
+  private async applyRemoteChanges(remote: SyncChange[], pending: SyncChange[]): Promise<number> {
+    const pendingById = new Map(pending.map((c) => [changeId(c), c]));
+    const accepted: SyncChange[] = [];
+    const vocabConflicts: SyncChange[] = [];
+    let conflicts = 0;
+
+    for (const change of remote) {
+      const local = pendingById.get(changeId(change));
+      if (!local) {
+        accepted.push(change);
+        continue;
+      }
+
+      conflicts++;
+      if (change.store === 'vocab' && !change.deleted && !local.deleted) {
+        vocabConflicts.push(change);
+      } else if (change.modifiedAt > local.modifiedAt) {
+        accepted.push(change);
+      }
+    }
+
+    // Reviews land before the replays below read the log
+    await indexedDBService.applySyncChanges(accepted);
+
+    if (vocabConflicts.length > 0) {
+      const localWords = await indexedDBService.getSyncRecords('vocab', vocabConflicts.map((c) => c.key));
+      const deckFor = await loadDeckResolver();
+      const merged: SyncChange[] = [];
+
+      for (const change of vocabConflicts) {
+        const localWord: StoredVocabWord | undefined = localWords.get(change.key);
+        const record = localWord ? await this.mergeVocabWord(localWord, change.record, deckFor) : change.record;
+        merged.push({ ...change, modifiedAt: record.modifiedAt, record });
+      }
+      await indexedDBService.applySyncChanges(merged);
+    }
+
+    // Daily review counts from several devices are recounted from the merged log and sessions
+    const statsKeys = new Set<string>();
+    for (const change of accepted) {
+      if ((change.store === 'wordReviews' || change.store === 'reviewSessions') && change.record) {
+        statsKeys.add(dailyStatsKey(change.record.date, change.record.language));
+      }
+      if (change.store === 'dailyStats') statsKeys.add(change.key);
+    }
+    await indexedDBService.recountDailyReviews(Array.from(statsKeys));
+
+    return conflicts;
+  }
+
+  private async mergeVocabWord(
+    local: StoredVocabWord,
+    remote: StoredVocabWord,
+    deckFor: DeckResolver
+  ): Promise<StoredVocabWord> {
+    const merged = unionVocabWords(local, remote);
+    const reviews = await indexedDBService.getWordReviewsForWord(merged.word, merged.language);
+    const replayed = replayVocabCards(merged, [local, remote], reviews, deckFor(merged));
+
+    return { ...replayed, modifiedAt: Date.now() };
+  }
+}
+
+export const syncService = new SyncService();
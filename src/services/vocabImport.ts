@@ -0,0 +1,227 @@
+import { VocabContext } from '../types';
+import { indexedDBService } from './indexedDB';
+import { fsrsService } from './fsrs';
+import { hashString } from '../utils/hash';
+import { vocabKey } from '../utils/vocab';
+
+export type ImportSource = 'csv' | 'anki' | 'kindle';
+
+export interface ImportedWord {
+  word: string; // Vocab key word (lemma/stem when the source provides one)
+  form?: string; // Surface form as looked up, when different from word
+  meaning: string;
+  sentenceText: string;
+  sentenceTranslation: string;
+  languageCode?: string; // Kindle only: book language as an ISO code
+}
+
+export interface ImportPreviewItem extends ImportedWord {
+  key: string;
+  status: 'new' | 'known';
+  duplicates: number; // Extra occurrences in the file merged into this row
+}
+
+// Common ISO 639-1 codes used by Kindle, mapped to COMMON_LANGUAGES names
+export const KINDLE_LANGUAGE_CODES: Record<string, string> = {
+  sq: 'Albanian', ar: 'Arabic', zh: 'Chinese (Mandarin)', cs: 'Czech', da: 'Danish',
+  nl: 'Dutch', fi: 'Finnish', fr: 'French', de: 'German', el: 'Greek', he: 'Hebrew',
+  hi: 'Hindi', hu: 'Hungarian', it: 'Italian', ja: 'Japanese', ko: 'Korean',
+  no: 'Norwegian', nb: 'Norwegian', pl: 'Polish', pt: 'Portuguese', ro: 'Romanian',
+  ru: 'Russian', es: 'Spanish', sv: 'Swedish', th: 'Thai', tr: 'Turkish',
+  uk: 'Ukrainian', vi: 'Vietnamese', en: 'English',
+};
+
+const HEADER_ALIASES: Record<string, keyof ImportedWord> = {
+  word: 'word', front: 'word', term: 'word', expression: 'word',
+  meaning: 'meaning', back: 'meaning', definition: 'meaning', translation: 'meaning',
+  sentence: 'sentenceText', example: 'sentenceText', context: 'sentenceText', text: 'sentenceText',
+  'sentence translation': 'sentenceTranslation', 'example translation': 'sentenceTranslation',
+};
+
+const stripHtml = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'text/html');
+  return (doc.body.textContent || '').trim();
+};
+
+// Split delimited text into rows, honouring double-quoted fields
+function parseRows(text: string, separator: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim().length > 0));
+}
+
+// CSV/TSV word lists and Anki "Notes in Plain Text" exports.
+// Anki exports start with "#key:value" header lines; plain lists may have a header row.
+export function parseDelimited(text: string): { words: ImportedWord[]; source: ImportSource } {
+  const lines = text.split(/\r?\n/);
+  const directives: Record<string, string> = {};
+  while (lines.length > 0 && lines[0].startsWith('#')) {
+    const [key, ...rest] = lines.shift()!.slice(1).split(':');
+    directives[key.trim()] = rest.join(':').trim();
+  }
+
+  const body = lines.join('\n');
+  const source: ImportSource = Object.keys(directives).length > 0 ? 'anki' : 'csv';
+  const separatorName = directives.separator?.toLowerCase();
+  const separator =
+    separatorName === 'tab' ? '\t'
+    : separatorName === 'comma' ? ','
+    : separatorName === 'semicolon' ? ';'
+    : body.includes('\t') ? '\t' : ',';
+  const isHtml = directives.html === 'true' || source === 'anki';
+
+  const rows = parseRows(body, separator);
+  if (rows.length === 0) return { words: [], source };
+
+  // Map columns from a header row if there is one, otherwise word, meaning, sentence, translation
+  let columns: Array<keyof ImportedWord | undefined> = ['word', 'meaning', 'sentenceText', 'sentenceTranslation'];
+  const headerColumns = rows[0].map((h) => HEADER_ALIASES[h.trim().toLowerCase()]);
+  if (headerColumns.includes('word')) {
+    columns = headerColumns;
+    rows.shift();
+  }
+
+  const clean = (value: string | undefined) => {
+    const trimmed = (value || '').trim();
+    return isHtml ? stripHtml(trimmed) : trimmed;
+  };
+
+  const words = rows
+    .map((row) => {
+      const entry: ImportedWord = { word: '', meaning: '', sentenceText: '', sentenceTranslation: '' };
+      columns.forEach((column, i) => {
+        if (column === 'word' || column === 'meaning' || column === 'sentenceText' || column === 'sentenceTranslation') {
+          entry[column] = clean(row[i]);
+        }
+      });
+      return entry;
+    })
+    .filter((w) => w.word.length > 0);
+
+  return { words, source };
+}
+
+// Kindle's vocab.db is a SQLite file; read it locally with sql.js (wasm)
+export async function parseKindleVocabDb(buffer: ArrayBuffer): Promise<ImportedWord[]> {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url'),
+  ]);
+  const SQL = await initSqlJs({ locateFile: () => wasmUrl });
+  const db = new SQL.Database(new Uint8Array(buffer));
+
+  try {
+    const result = db.exec(
+      `SELECT w.word, w.stem, w.lang, l.usage
+       FROM LOOKUPS l JOIN WORDS w ON l.word_key = w.id
+       ORDER BY l.timestamp`
+    );
+    if (result.length === 0) return [];
+
+    return result[0].values.map(([word, stem, lang, usage]) => {
+      const surface = String(word || '').trim();
+      const lemma = String(stem || surface).trim();
+      return {
+        word: lemma,
+        ...(lemma.toLowerCase() !== surface.toLowerCase() ? { form: surface } : {}),
+        meaning: '',
+        sentenceText: String(usage || '').trim(),
+        sentenceTranslation: '',
+        languageCode: String(lang || '').toLowerCase(),
+      };
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Merge repeated words within the file and mark words that are already in vocab
+export function buildImportPreview(
+  words: ImportedWord[],
+  language: string,
+  existingKeys: Set<string>
+): ImportPreviewItem[] {
+  const byKey = new Map<string, ImportPreviewItem>();
+
+  for (const word of words) {
+    const key = vocabKey(word.word, language);
+    const existing = byKey.get(key);
+    if (existing) {
+      existing.duplicates += 1;
+      continue;
+    }
+    byKey.set(key, {
+      ...word,
+      key,
+      status: existingKeys.has(key) ? 'known' : 'new',
+      duplicates: 0,
+    });
+  }
+
+  return Array.from(byKey.values());
+}
+
+// Add the previewed words to the vocab store with fresh FSRS cards.
+// Known words only get the imported sentence added as another context.
+export async function importVocabWords(
+  items: ImportPreviewItem[],
+  language: string,
+  includeKnown: boolean
+): Promise<number> {
+  let imported = 0;
+  const seenAt = Date.now();
+
+  for (const item of items) {
+    if (item.status === 'known' && !includeKnown) continue;
+
+    const sentenceText = item.sentenceText || item.form || item.word;
+    const context: VocabContext = {
+      sentenceId: hashString(sentenceText),
+      sentenceText,
+      sentenceTranslation: item.sentenceTranslation,
+      meaning: item.meaning,
+      pageId: '',
+      seenAt,
+      ...(item.form ? { form: item.form } : {}),
+    };
+
+    await indexedDBService.addVocabWord(item.word, language, context, fsrsService.createCard());
+    imported++;
+  }
+
+  return imported;
+}
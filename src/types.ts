@@ -1,29 +1,97 @@
+export interface GrammarInfo {
+  partOfSpeech?: string;
+  case?: string;
+  number?: string;
+  tense?: string;
+}
+
 export interface WordInfo {
   word: string;
   meaning: string;
   sentenceTranslation: string;
+  isPhrase?: boolean; // True when this describes a multi-word expression
+  lemma?: string; // Dictionary form, e.g. "libër" for "librin"
+  grammar?: GrammarInfo;
+}
+
+export interface PhraseInfo {
+  phrase: string; // Expression as written in the sentence
+  meaning: string;
+  tokenIndices: number[]; // Indices into Sentence.tokens, in order (may be non-contiguous)
+}
+
+export interface WordSpan {
+  start: number; // Character offset into Sentence.text
+  end: number; // Exclusive end offset
+  key: string; // Key into Sentence.words
+}
+
+// Grammatical breakdown of one token of a sentence
+export interface TokenGrammar {
+  token: string; // As written in the sentence
+  role: string; // What it does in the sentence, e.g. subject, direct object, main verb
+  form: string; // How it is inflected, e.g. accusative definite singular
+  note: string; // Why it takes that form or position; may be empty
+}
+
+export interface GrammarExplanation {
+  tokens: TokenGrammar[];
+  summary: string; // How the sentence as a whole is built: word order, mood, clauses
+  language: string; // Language the roles and notes are written in
+  createdAt: number;
 }
 
 export interface Sentence {
   text: string;
   translation: string;
   words: Map<string, WordInfo>;
+  tokens?: WordSpan[]; // Word positions in text; missing on pages processed before alignment
+  phrases?: PhraseInfo[]; // Multi-word expressions (idioms, phrasal/separable verbs)
+  explanation?: GrammarExplanation; // Fetched the first time the sentence is explained
 }
 
 export interface Paragraph {
   sentences: Sentence[];
 }
 
-export interface Book {
+// Region of the page image as fractions (0-1) of its width and height
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextLine {
+  text: string; // As printed, before hyphenated words are joined
+  box: BoundingBox;
+}
+
+// Where an extracted paragraph and its lines sit on the page image
+export interface ParagraphLayout {
+  box: BoundingBox;
+  lines: TextLine[];
+}
+
+// Where the reader left off in a book's continuous reading mode
+export interface ReadingProgress {
+  pageId: string;
+  sentenceId?: string; // First sentence at the top of the screen
+  readPageIds: string[]; // Pages scrolled through to the end
+  updatedAt: number;
+}
+
+export interface Book extends SyncedRecord {
   id: string;
   title: string;
   author?: string;
   coverImageUrl?: string;
   language: string;
   createdAt: number;
+  readingProgress?: ReadingProgress;
 }
 
-export interface PageData {
+export interface PageData extends SyncedRecord {
   id: string;
   imageDataUrl?: string; // Stored in IndexedDB
   paragraphs: Paragraph[];
@@ -32,37 +100,76 @@ export interface PageData {
   language: string; // Source language of the page
   bookId?: string; // Optional reference to a book
   pageNumber?: number; // Optional page number in the book
+  layout?: ParagraphLayout[]; // Image regions of the extracted text; missing on pages processed before OCR layout
+  readAt?: number; // When the page was first read to the end in the single-page reader
+}
+
+export type AIProviderType = 'gemini' | 'openai' | 'mock';
+
+// Operations that can each be routed to a different provider/model
+export type AIOperation = 'extract' | 'split' | 'translate' | 'explain';
+
+export interface AIModelConfig {
+  provider: AIProviderType;
+  model: string;
 }
 
+// What tapping a word adds to vocabulary: every word of its sentence, or just that word
+export type VocabAddMode = 'sentence' | 'tapped';
+
 export interface AppSettings {
-  apiKey: string;
+  apiKey: string; // Google Gemini API key
   nativeLanguage: string; // Target language for translations (default: English)
   recentLanguages: string[]; // Recently used source languages
   selectedLanguage: string; // Selected language for vocab/stats filtering (default: "all")
   darkMode: boolean; // Dark mode preference (default: false)
+  aiModels?: Record<AIOperation, AIModelConfig>; // Provider/model per operation (default: DEFAULT_AI_MODELS)
+  openaiBaseUrl?: string; // Base URL of an OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  openaiApiKey?: string; // Optional key for the OpenAI-compatible endpoint
+  syncUrl?: string; // Base URL of a sync server, e.g. http://localhost:8787
+  syncToken?: string; // Optional bearer token expected by the sync server
+  vocabAddMode?: VocabAddMode; // Default: 'sentence'
+  typedAnswers?: boolean; // Type the answer on review cards instead of only flipping them
+  speechVoices?: Record<string, string>; // Voice (voiceURI) picked per source language
+  speechRate?: number; // Speaking rate, 1 being normal speed
 }
 
 // Vocabulary and Review System Types
 
+// Directions a word is reviewed in: recognition shows it in a sentence,
+// reverse asks for it from its meaning, cloze blanks it out of the sentence
+// and listening plays the sentence aloud
+export type ReviewCardType = 'recognition' | 'reverse' | 'cloze' | 'listening';
+
+// How a typed answer compared to the expected one: spelled exactly, wrong only
+// in accents like ë/e and ç/c, or wrong
+export type TypedAnswerVerdict = 'exact' | 'diacritics' | 'wrong';
+
 export interface VocabContext {
   sentenceId: string; // Hash of sentenceText
   sentenceText: string;
   sentenceTranslation: string;
   meaning: string;
-  pageId: string;
+  pageId: string; // Empty for words imported from other tools
   seenAt: number;
+  form?: string; // Surface form seen in the sentence when it differs from the vocab word
+  grammar?: GrammarInfo; // Grammatical info of that form
 }
 
-export interface VocabWord {
-  word: string; // lowercase
+export interface VocabWord extends SyncedRecord {
+  word: string; // lowercase lemma (or surface form when the lemma is unknown)
   language: string;
   addedAt: number;
   ignored: boolean;
-  fsrsCard: any; // FSRS Card object (serialized)
+  isPhrase?: boolean; // Multi-word expression rather than a single word
+  fsrsCard: any; // FSRS Card object (serialized), for recognition
+  typeCards?: Partial<Record<ReviewCardType, any>>; // Cards of the other directions, from their first review
+  cardSetAt?: Partial<Record<ReviewCardType, number>>; // When a card was last set other than by a review (e.g. marked as known)
   contexts: VocabContext[];
+  forms?: string[]; // Observed inflected forms (lowercase), excluding the lemma itself
 }
 
-export interface ReviewSession {
+export interface ReviewSession extends SyncedRecord {
   id: string;
   language: string;
   date: number;
@@ -70,7 +177,7 @@ export interface ReviewSession {
   duration: number; // in seconds
 }
 
-export interface DailyStats {
+export interface DailyStats extends SyncedRecord {
   date: string; // YYYY-MM-DD format
   language: string;
   reviewCount: number;
@@ -78,11 +185,151 @@ export interface DailyStats {
   wordsMastered: number; // New field
 }
 
-export interface WordReview {
+export interface WordReview extends SyncedRecord {
   id: string; // unique ID
   word: string;
   language: string;
   rating: number; // FSRS Rating (1-4)
   date: number; // timestamp
   reviewedAt: string; // YYYY-MM-DD for indexing
+  pageId?: string; // Where the example sentence on the card came from
+  sentenceId?: string;
+  cardType?: ReviewCardType; // Default: 'recognition'
+  elapsedDays?: number; // Days since the card's previous review
+  // FSRS log of the review; missing on reviews made before it was recorded
+  previousState?: number; // Card state before the review: 0 new, 1 learning, 2 review, 3 relearning
+  state?: number; // Card state after the review
+  previousStability?: number;
+  previousDifficulty?: number;
+  stability?: number;
+  difficulty?: number;
+  scheduledDays?: number; // Days until the next review
+  durationMs?: number; // Time from showing the card to rating it
+  typedAnswer?: string; // What was typed in typed-answer mode
+  typedVerdict?: TypedAnswerVerdict;
+}
+
+// Review Deck Types
+
+// Scheduling options for the words of a language, or for the words first met
+// in a book. A book deck takes precedence over its language's deck.
+export interface DeckSettings extends SyncedRecord {
+  id: string; // `language:${language}` or `book:${bookId}`
+  language: string;
+  bookId?: string;
+  desiredRetention: number; // Chance of remembering a word when it comes up, 0.7-0.99
+  maximumInterval: number; // Days
+  newCardsPerDay: number;
+  reviewsPerDay: number;
+  learningSteps: string[]; // e.g. ['1m', '10m']
+  masteryInterval: number; // Days between reviews from which a word counts as mastered
+  weights?: number[]; // FSRS weights fitted to the review log; defaults when missing
+  cardTypes?: ReviewCardType[]; // Default: ['recognition']
+}
+
+// Page Processing Queue Types
+
+export type ProcessingJobStatus =
+  | 'queued'
+  | 'extracting'
+  | 'translating'
+  | 'saved'
+  | 'failed';
+
+export interface ProcessingJob {
+  id: string; // Also used as the id of the resulting page
+  batchId: string; // Jobs created from the same upload share a batch
+  imageDataUrl: string; // Original (uncompressed) image
+  language: string; // Source language
+  targetLanguage: string; // Translation target at the time of upload
+  bookId?: string;
+  pageNumber?: number;
+  status: ProcessingJobStatus;
+  attempts: number; // Failed attempts so far
+  error?: string; // Last error message
+  nextAttemptAt?: number; // Timestamp before which the job should not be retried
+  paragraphTexts?: string[]; // Extracted text, kept so a retry can skip OCR
+  layout?: ParagraphLayout[]; // Image regions found along with the text
+  pageId?: string; // Set once the page has been saved
+  bypassTranslationCache?: boolean; // Translate every sentence afresh, replacing cached translations
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Translation Cache Types
+
+// A model's translation of a sentence, kept on this device so translating the
+// same sentence again costs nothing
+export interface CachedTranslation {
+  key: string; // See translationCacheKey
+  data: any; // Response in the shape translation prompts ask for, rebuilt with toSentence
+  createdAt: number;
+}
+
+export interface TranslationCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+// Sync Types
+
+// Records in synced stores are stamped on every local write
+export interface SyncedRecord {
+  modifiedAt?: number;
+}
+
+export interface SyncTombstone {
+  id: string; // `${store}/${key}`
+  store: string;
+  key: string;
+  deletedAt: number;
+}
+
+// One record-level change exchanged with the sync server
+export interface SyncChange {
+  store: string;
+  key: string;
+  modifiedAt: number;
+  deleted?: boolean;
+  record?: any; // Absent for deletes
+}
+
+export interface SyncState {
+  deviceId: string;
+  cursor: number; // Server sequence number of the last pulled change
+  lastPushedAt: number; // Local changes modified after this haven't been pushed yet
+  lastSyncedAt?: number;
+}
+
+// Search Types
+
+export type SearchField = 'source' | 'native' | 'vocab';
+
+// One entry of the inverted index: a normalized term found in a sentence
+export interface SearchPosting {
+  id: string; // `${term}|${docId}|${sentenceId}|${field}`
+  term: string;
+  docId: string; // `page:<pageId>` or `vocab:<word_language>`
+  pageId: string; // Empty for vocab imported without a page
+  sentenceId: string;
+  field: SearchField;
+  language: string;
+}
+
+// Page Editing Types
+
+// A sentence that was replaced by an edit and one of the sentences replacing it
+export interface SentenceIdChange {
+  from: string;
+  to: string;
+}
+
+export interface PageEdit {
+  id: string;
+  pageId: string;
+  editedAt: number;
+  description: string; // Short summary shown in the edit history
+  before: Pick<PageData, 'originalText' | 'paragraphs'>; // Page content before the edit, for undo
+  sentenceChanges: SentenceIdChange[]; // Used to move vocab contexts along with the text
 }
@@ -0,0 +1,23 @@
+import { Book, PageData } from '../types';
+
+// A book's pages in reading order. Pages without a number go last, oldest first.
+export function getBookPages(pages: PageData[], bookId: string): PageData[] {
+  return pages
+    .filter((p) => p.bookId === bookId)
+    .sort((a, b) => {
+      if (a.pageNumber && b.pageNumber) return a.pageNumber - b.pageNumber;
+      if (a.pageNumber || b.pageNumber) return a.pageNumber ? -1 : 1;
+      return a.timestamp - b.timestamp;
+    });
+}
+
+// Read to the end, either in the book reader or on its own
+export function isPageRead(page: PageData, book?: Book): boolean {
+  return !!page.readAt || !!book?.readingProgress?.readPageIds.includes(page.id);
+}
+
+export function getReadingStats(book: Book, bookPages: PageData[]): { read: number; total: number; percent: number } {
+  const read = bookPages.filter((p) => isPageRead(p, book)).length;
+  const total = bookPages.length;
+  return { read, total, percent: total > 0 ? Math.round((read / total) * 100) : 0 };
+}
@@ -0,0 +1,60 @@
+import { ReviewCardType, VocabContext, VocabWord } from '../types';
+import { fsrsService } from '../services/fsrs';
+import { findWordOccurrences } from './tokens';
+
+export const CARD_TYPES: ReviewCardType[] = ['recognition', 'reverse', 'cloze', 'listening'];
+
+export const DEFAULT_CARD_TYPES: ReviewCardType[] = ['recognition'];
+
+export const CARD_TYPE_LABELS: Record<ReviewCardType, string> = {
+  recognition: 'Word in a sentence',
+  reverse: 'Meaning → word',
+  cloze: 'Fill in the blank',
+  listening: 'Listening',
+};
+
+export interface DueCard {
+  cardType: ReviewCardType;
+  card: any;
+  contexts: VocabContext[]; // The ones the card can be shown with
+}
+
+export function getTypeCard(word: VocabWord, cardType: ReviewCardType = 'recognition'): any {
+  return cardType === 'recognition' ? word.fsrsCard : word.typeCards?.[cardType];
+}
+
+export function setTypeCard<T extends VocabWord>(word: T, cardType: ReviewCardType, card: any): T {
+  return cardType === 'recognition'
+    ? { ...word, fsrsCard: card }
+    : { ...word, typeCards: { ...word.typeCards, [cardType]: card } };
+}
+
+// A cloze needs the word to appear in the sentence as a whole word so it can
+// be blanked out
+export function getCardContexts(word: VocabWord, cardType: ReviewCardType): VocabContext[] {
+  switch (cardType) {
+    case 'reverse':
+      return word.contexts.filter((c) => c.meaning);
+    case 'cloze':
+      return word.contexts.filter((c) => findWordOccurrences(c.sentenceText, c.form || word.word).length > 0);
+    default:
+      return word.contexts.filter((c) => c.sentenceText);
+  }
+}
+
+// Cards of the word due by now in the given directions. When recognition is
+// one of them, the others start once the word has had its first review.
+export function getDueCards(word: VocabWord, cardTypes: ReviewCardType[], now: Date = new Date()): DueCard[] {
+  const due: DueCard[] = [];
+  const introduced = !cardTypes.includes('recognition') || (!!word.fsrsCard && word.fsrsCard.state !== 0);
+
+  for (const cardType of cardTypes) {
+    const contexts = getCardContexts(word, cardType);
+    let card = getTypeCard(word, cardType);
+    if (!card && cardType !== 'recognition' && introduced) card = fsrsService.createCard();
+    if (contexts.length === 0 || !card?.due || new Date(card.due) > now) continue;
+
+    due.push({ cardType, card, contexts });
+  }
+  return due;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { PageData, VocabWord, WordInfo } from '../types';
+import {
+  Coverage,
+  buildVocabLookup,
+  compareForReading,
+  distanceFromTarget,
+  estimateCoverage,
+  getVocabWordStatus,
+} from './comprehension';
+import { alignWordSpans } from './tokens';
+
+const card = (state: number, scheduledDays = 0) => ({ state, scheduled_days: scheduledDays });
+
+const vocab = (word: string, fsrsCard: object, overrides: Partial<VocabWord> = {}): VocabWord => ({
+  word,
+  language: 'Albanian',
+  addedAt: 0,
+  ignored: false,
+  fsrsCard,
+  contexts: [],
+  ...overrides,
+});
+
+const page = (text: string, words: WordInfo[]): PageData => ({
+  id: 'p1',
+  paragraphs: [
+    {
+      sentences: [
+        {
+          text,
+          translation: '',
+          words: new Map(words.map((w) => [w.word.toLowerCase(), w])),
+          tokens: alignWordSpans(text, words.map((w) => w.word)),
+        },
+      ],
+    },
+  ],
+  timestamp: 0,
+  originalText: text,
+  language: 'Albanian',
+});
+
+const info = (word: string, lemma?: string): WordInfo => ({
+  word,
+  meaning: '',
+  sentenceTranslation: '',
+  ...(lemma ? { lemma } : {}),
+});
+
+const coverage = (percent: number): Coverage => ({ known: percent, total: 100, percent });
+
+describe('getVocabWordStatus', () => {
+  it('follows the FSRS card state', () => {
+    expect(getVocabWordStatus(undefined)).toBe('unseen');
+    expect(getVocabWordStatus(vocab('a', card(0)))).toBe('new');
+    expect(getVocabWordStatus(vocab('a', card(1)))).toBe('learning');
+    expect(getVocabWordStatus(vocab('a', card(3)))).toBe('learning');
+    expect(getVocabWordStatus(vocab('a', card(2, 5)))).toBe('review');
+    expect(getVocabWordStatus(vocab('a', card(0), { ignored: true }))).toBe('ignored');
+  });
+
+  it('counts a word as mastered from the mastery interval', () => {
+    expect(getVocabWordStatus(vocab('a', card(2, 30)))).toBe('mastered');
+    expect(getVocabWordStatus(vocab('a', card(2, 30)), 60)).toBe('review');
+  });
+});
+
+describe('estimateCoverage', () => {
+  it('counts running words in review, mastered or ignored as known', () => {
+    const lookup = buildVocabLookup(
+      [vocab('unë', card(2, 5)), vocab('libër', card(2, 30), { forms: ['librin'] }), vocab('dhe', card(1))],
+      'Albanian'
+    );
+    const text = 'Unë lexoj librin dhe librin';
+    // Listed once per occurrence, as the model lists them
+    const words = [info('Unë'), info('lexoj'), info('librin', 'libër'), info('dhe'), info('librin', 'libër')];
+
+    // Unë, librin, librin known; lexoj unseen; dhe learning
+    expect(estimateCoverage([page(text, words)], lookup)).toEqual({ known: 3, total: 5, percent: 60 });
+  });
+
+  it('ignores words of other languages', () => {
+    const lookup = buildVocabLookup([vocab('lexoj', card(2, 5), { language: 'German' })], 'Albanian');
+    expect(estimateCoverage([page('lexoj', [info('lexoj')])], lookup).known).toBe(0);
+  });
+
+  it('is zero for a page without words', () => {
+    expect(estimateCoverage([page('', [])], buildVocabLookup([], 'Albanian'))).toEqual({
+      known: 0,
+      total: 0,
+      percent: 0,
+    });
+  });
+});
+
+describe('compareForReading', () => {
+  it('puts texts inside the target band first', () => {
+    expect(distanceFromTarget(90)).toBe(0);
+    expect(distanceFromTarget(80)).toBe(5);
+    expect(distanceFromTarget(100)).toBe(5);
+
+    const ranked = [100, 60, 90, 82, 96].map(coverage).sort(compareForReading);
+    expect(ranked.map((c) => c.percent)).toEqual([90, 96, 82, 100, 60]);
+  });
+
+  it('prefers the easier text at the same distance', () => {
+    const ranked = [80, 100, 85, 95].map(coverage).sort(compareForReading);
+    expect(ranked.map((c) => c.percent)).toEqual([95, 85, 100, 80]);
+  });
+});
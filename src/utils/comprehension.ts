@@ -0,0 +1,111 @@
+import { PageData, VocabWord, WordInfo } from '../types';
+import { isMasteredWord } from '../services/fsrs';
+import { DeckResolver } from '../services/decks';
+import { segmentSentence } from './tokens';
+
+export type WordStatus = 'unseen' | 'new' | 'learning' | 'review' | 'mastered' | 'ignored';
+
+// Vocab words of one language, by lemma and by every inflected form seen,
+// with the deck that sets when each of them counts as mastered
+export interface VocabLookup {
+  words: Map<string, VocabWord>;
+  deckFor?: DeckResolver; // Default mastery interval when unset
+}
+
+export interface Coverage {
+  known: number; // Running words the reader is expected to know
+  total: number;
+  percent: number;
+}
+
+// Words the reader should understand without looking them up
+const KNOWN_STATUSES: WordStatus[] = ['review', 'mastered', 'ignored'];
+
+// Known-word shares between which a text is a stretch but still readable:
+// much below 85% is a struggle, and above 95% there's little new to meet
+export const TARGET_COVERAGE = { min: 85, max: 95 };
+
+export function buildVocabLookup(words: VocabWord[], language: string, deckFor?: DeckResolver): VocabLookup {
+  const byForm = new Map<string, VocabWord>();
+  for (const word of words) {
+    if (word.language !== language || word.isPhrase) continue;
+    for (const form of word.forms || []) {
+      if (!byForm.has(form)) byForm.set(form, word);
+    }
+    byForm.set(word.word, word); // A lemma wins over another word's form
+  }
+  return { words: byForm, deckFor };
+}
+
+export function findVocabWord(info: WordInfo, lookup: VocabLookup): VocabWord | undefined {
+  return lookup.words.get((info.lemma || info.word).toLowerCase()) || lookup.words.get(info.word.toLowerCase());
+}
+
+export function getWordStatus(info: WordInfo, lookup: VocabLookup): WordStatus {
+  const vocabWord = findVocabWord(info, lookup);
+  return getVocabWordStatus(vocabWord, vocabWord && lookup.deckFor?.(vocabWord).masteryInterval);
+}
+
+export function getVocabWordStatus(vocabWord: VocabWord | undefined, masteryInterval?: number): WordStatus {
+  if (!vocabWord) return 'unseen';
+  if (vocabWord.ignored) return 'ignored';
+  if (isMasteredWord(vocabWord.fsrsCard, masteryInterval)) return 'mastered';
+
+  // FSRS card states: 0 new, 1 learning, 2 review, 3 relearning
+  switch (vocabWord.fsrsCard?.state) {
+    case 1:
+    case 3:
+      return 'learning';
+    case 2:
+      return 'review';
+    default:
+      return 'new';
+  }
+}
+
+// Share of running words on the pages that are known, a rough estimate of
+// how much of the text can be read without help
+export function estimateCoverage(pages: PageData[], lookup: VocabLookup): Coverage {
+  let known = 0;
+  let total = 0;
+
+  for (const sentence of pages.flatMap((page) => page.paragraphs.flatMap((p) => p.sentences))) {
+    for (const segment of segmentSentence(sentence)) {
+      const info = segment.key ? sentence.words.get(segment.key) : undefined;
+      if (!info) continue;
+
+      total++;
+      if (KNOWN_STATUSES.includes(getWordStatus(info, lookup))) known++;
+    }
+  }
+
+  return { known, total, percent: total > 0 ? Math.round((known / total) * 100) : 0 };
+}
+
+// How many points a text's coverage lies outside the target band
+export function distanceFromTarget(percent: number): number {
+  return Math.max(TARGET_COVERAGE.min - percent, percent - TARGET_COVERAGE.max, 0);
+}
+
+// Sort order for texts to read next: those within the target band first,
+// then the ones closest to it, the easier first at the same distance
+export function compareForReading(a: Coverage, b: Coverage): number {
+  return distanceFromTarget(a.percent) - distanceFromTarget(b.percent) || b.percent - a.percent;
+}
+
+// Words on the page that aren't in the vocabulary at all, once per lemma
+export function findUnseenWords(
+  page: PageData,
+  lookup: VocabLookup
+): Array<{ info: WordInfo; sentenceText: string }> {
+  const unseen = new Map<string, { info: WordInfo; sentenceText: string }>();
+  for (const sentence of page.paragraphs.flatMap((p) => p.sentences)) {
+    for (const info of sentence.words.values()) {
+      const key = (info.lemma || info.word).toLowerCase();
+      if (!unseen.has(key) && !findVocabWord(info, lookup)) {
+        unseen.set(key, { info, sentenceText: sentence.text });
+      }
+    }
+  }
+  return Array.from(unseen.values());
+}
@@ -0,0 +1,27 @@
+import { ReviewSession, WordReview } from '../types';
+
+export interface DailyReviewCount {
+  date: string; // YYYY-MM-DD
+  language: string;
+  reviewCount: number;
+}
+
+export const dailyStatsKey = (timestamp: number, language: string) =>
+  `${new Date(timestamp).toISOString().split('T')[0]}_${language}`;
+
+// A day's reviewCount as the app keeps it live: one for each word review, plus
+// the word count of each session finished that day (undoWordReview takes both
+// back). Rebuilds count the same way, so they agree with the live counters.
+export function countDailyReviews(reviews: WordReview[], sessions: ReviewSession[]): Map<string, DailyReviewCount> {
+  const counts = new Map<string, DailyReviewCount>();
+  const add = (timestamp: number, language: string, count: number) => {
+    const key = dailyStatsKey(timestamp, language);
+    const entry = counts.get(key) || { date: key.split('_')[0], language, reviewCount: 0 };
+    entry.reviewCount += count;
+    counts.set(key, entry);
+  };
+
+  for (const review of reviews) add(review.date, review.language, 1);
+  for (const session of sessions) add(session.date, session.language, session.wordCount || 0);
+  return counts;
+}
@@ -0,0 +1,144 @@
+import { FSRSState, clipParameters, dateDiffInDays, default_w, fsrs, generatorParameters } from 'ts-fsrs';
+import { WordReview } from '../types';
+import { vocabKey } from './vocab';
+
+// One review of a card: days since the previous review and the rating given
+export interface ReviewStep {
+  elapsedDays: number;
+  rating: number;
+}
+
+export interface WeightsEvaluation {
+  logLoss: number;
+  expectedRetention: number; // Mean predicted recall at the moments reviews happened
+}
+
+export interface OptimizationResult {
+  cardCount: number;
+  reviewCount: number; // Reviews a day or more after the previous one, the ones predictions are scored on
+  actualRetention: number;
+  before: WeightsEvaluation;
+  after: WeightsEvaluation;
+  weights: number[];
+}
+
+// Fewer scored reviews than this fit noise more than memory
+export const MIN_OPTIMIZER_REVIEWS = 100;
+
+const EPOCHS = 40;
+const LEARNING_RATE = 0.04;
+const RELEARNING_STEPS = 1;
+
+// Review sequence of every card, oldest review first. Reviews logged before
+// elapsed days were recorded fall back to the calendar days between them.
+export function buildReviewSequences(reviews: WordReview[]): ReviewStep[][] {
+  const byCard = new Map<string, WordReview[]>();
+  for (const review of reviews) {
+    const key = `${vocabKey(review.word, review.language)}/${review.cardType || 'recognition'}`;
+    if (!byCard.has(key)) byCard.set(key, []);
+    byCard.get(key)!.push(review);
+  }
+
+  return Array.from(byCard.values()).map((cardReviews) => {
+    cardReviews.sort((a, b) => a.date - b.date);
+    return cardReviews.map((review, i) => ({
+      rating: review.rating,
+      elapsedDays:
+        review.elapsedDays ?? (i > 0 ? dateDiffInDays(new Date(cardReviews[i - 1].date), new Date(review.date)) : 0),
+    }));
+  });
+}
+
+const isScored = (step: ReviewStep, index: number) => index > 0 && step.elapsedDays >= 1;
+
+export function countScoredReviews(sequences: ReviewStep[][]): number {
+  return sequences.reduce((count, steps) => count + steps.filter(isScored).length, 0);
+}
+
+// Replays every sequence with the given weights and scores how well the
+// predicted recall matches whether each review was passed
+export function evaluateWeights(sequences: ReviewStep[][], weights: number[]): WeightsEvaluation {
+  const scheduler = fsrs(generatorParameters({ w: weights, enable_fuzz: false }));
+  let loss = 0;
+  let retention = 0;
+  let count = 0;
+
+  for (const steps of sequences) {
+    let state: FSRSState | null = null;
+    steps.forEach((step, i) => {
+      if (state && isScored(step, i)) {
+        const recall = Math.min(Math.max(scheduler.forgetting_curve(step.elapsedDays, state.stability), 1e-4), 1 - 1e-4);
+        loss -= step.rating > 1 ? Math.log(recall) : Math.log(1 - recall);
+        retention += recall;
+        count++;
+      }
+      state = scheduler.next_state(state, step.elapsedDays, step.rating);
+    });
+  }
+
+  return count > 0 ? { logLoss: loss / count, expectedRetention: retention / count } : { logLoss: 0, expectedRetention: 0 };
+}
+
+// Fits weights to the sequences by minimizing log loss with Adam. The loss
+// isn't differentiable through ts-fsrs, so gradients are finite differences.
+export function optimizeWeights(
+  sequences: ReviewStep[][],
+  currentWeights: number[] = [...default_w],
+  onProgress?: (progress: number) => void
+): OptimizationResult {
+  const reviewCount = countScoredReviews(sequences);
+  if (reviewCount < MIN_OPTIMIZER_REVIEWS) {
+    throw new Error(
+      `Optimizing needs at least ${MIN_OPTIMIZER_REVIEWS} reviews made a day or more after the previous one; found ${reviewCount}`
+    );
+  }
+
+  const passed = sequences.reduce(
+    (count, steps) => count + steps.filter((step, i) => isScored(step, i) && step.rating > 1).length,
+    0
+  );
+  const start = clipParameters([...currentWeights], RELEARNING_STEPS);
+  const scales = start.map((w, i) => Math.max(Math.abs(default_w[i] ?? w), 0.05));
+
+  let weights = [...start];
+  let best = { weights, loss: evaluateWeights(sequences, weights).logLoss };
+  const m = weights.map(() => 0);
+  const v = weights.map(() => 0);
+
+  for (let epoch = 1; epoch <= EPOCHS; epoch++) {
+    const loss = epoch === 1 ? best.loss : evaluateWeights(sequences, weights).logLoss;
+    if (loss < best.loss) best = { weights, loss };
+
+    const gradient = weights.map((w, i) => {
+      const h = scales[i] * 1e-3;
+      const shifted = [...weights];
+      shifted[i] = w + h;
+      return (evaluateWeights(sequences, shifted).logLoss - loss) / h;
+    });
+
+    weights = clipParameters(
+      weights.map((w, i) => {
+        m[i] = 0.9 * m[i] + 0.1 * gradient[i];
+        v[i] = 0.999 * v[i] + 0.001 * gradient[i] ** 2;
+        const mHat = m[i] / (1 - 0.9 ** epoch);
+        const vHat = v[i] / (1 - 0.999 ** epoch);
+        return w - (LEARNING_RATE * scales[i] * mHat) / (Math.sqrt(vHat) + 1e-8);
+      }),
+      RELEARNING_STEPS
+    );
+    onProgress?.(epoch / EPOCHS);
+  }
+
+  const last = evaluateWeights(sequences, weights);
+  if (last.logLoss < best.loss) best = { weights, loss: last.logLoss };
+  const fitted = best.weights.map((w) => +w.toFixed(4));
+
+  return {
+    cardCount: sequences.length,
+    reviewCount,
+    actualRetention: passed / reviewCount,
+    before: evaluateWeights(sequences, start),
+    after: evaluateWeights(sequences, fitted),
+    weights: fitted,
+  };
+}
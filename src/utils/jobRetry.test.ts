@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessingJob } from '../types';
+import { findReadyJob, retryDelay, timeUntilNextAttempt } from './jobRetry';
+
+const job = (id: string, nextAttemptAt?: number): ProcessingJob => ({
+  id,
+  batchId: 'batch',
+  imageDataUrl: '',
+  language: 'Albanian',
+  targetLanguage: 'English',
+  status: 'queued',
+  attempts: nextAttemptAt ? 1 : 0,
+  nextAttemptAt,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('retryDelay', () => {
+  it('doubles from two seconds', () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([2000, 4000, 8000, 16000]);
+  });
+
+  it('waits at most a minute', () => {
+    expect(retryDelay(6)).toBe(60000);
+    expect(retryDelay(20)).toBe(60000);
+  });
+});
+
+describe('findReadyJob', () => {
+  it('skips jobs that are backing off', () => {
+    const jobs = [job('a', 5000), job('b'), job('c')];
+    expect(findReadyJob(jobs, 1000)?.id).toBe('b');
+  });
+
+  it('picks up a job once its retry time has come', () => {
+    expect(findReadyJob([job('a', 5000)], 5000)?.id).toBe('a');
+  });
+
+  it('finds nothing while every job is backing off', () => {
+    expect(findReadyJob([job('a', 5000), job('b', 3000)], 1000)).toBeUndefined();
+  });
+});
+
+describe('timeUntilNextAttempt', () => {
+  it('waits for the earliest retry', () => {
+    expect(timeUntilNextAttempt([job('a', 5000), job('b', 3000)], 1000)).toBe(2000);
+  });
+
+  it('never waits a negative time', () => {
+    expect(timeUntilNextAttempt([job('a', 500)], 1000)).toBe(0);
+  });
+});
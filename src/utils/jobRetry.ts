@@ -0,0 +1,22 @@
+import { ProcessingJob } from '../types';
+
+export const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+// Wait before the next try of a job that has failed `attempts` times:
+// doubling from two seconds, up to a minute
+export function retryDelay(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+// The first pending job that isn't backing off
+export function findReadyJob(pending: ProcessingJob[], now: number): ProcessingJob | undefined {
+  return pending.find((j) => !j.nextAttemptAt || j.nextAttemptAt <= now);
+}
+
+// How long until the earliest retry, when every pending job is backing off
+export function timeUntilNextAttempt(pending: ProcessingJob[], now: number): number {
+  const nextAt = Math.min(...pending.map((j) => j.nextAttemptAt || now));
+  return Math.max(nextAt - now, 0);
+}
@@ -0,0 +1,68 @@
+import { ParagraphLayout, TextLine } from '../types';
+import { hashString } from './hash';
+import { tokenizeForSearch } from './search';
+
+interface LineWord {
+  term: string;
+  line: number; // Index into pageLines()
+}
+
+export function pageLines(layout: ParagraphLayout[]): TextLine[] {
+  return layout.flatMap((paragraph) => paragraph.lines);
+}
+
+// Where a sentence starts in the page's words. Matching two words avoids
+// landing on a common word; the second pair covers a corrected first word.
+const findSentenceStart = (words: LineWord[], terms: string[], from: number): number | null => {
+  for (let i = from; i < words.length; i++) {
+    if (words[i].term === terms[0] && (terms.length < 2 || words[i + 1]?.term === terms[1])) return i;
+  }
+  if (terms.length < 3) return null;
+  for (let i = Math.max(from, 1); i < words.length; i++) {
+    if (words[i].term === terms[1] && words[i + 1]?.term === terms[2]) return i - 1;
+  }
+  return null;
+};
+
+// Image lines each sentence was read from, keyed by sentenceId. Sentences are
+// found in reading order by their words, ignoring case and accents, so text
+// corrected after OCR or words hyphenated across lines still find their lines.
+export function mapSentencesToLines(
+  paragraphs: Array<{ sentences: Array<{ text: string }> }>,
+  layout: ParagraphLayout[]
+): Map<string, number[]> {
+  const words: LineWord[] = pageLines(layout).flatMap((line, i) =>
+    tokenizeForSearch(line.text).map((term) => ({ term, line: i }))
+  );
+  const sentenceLines = new Map<string, number[]>();
+  let cursor = 0;
+
+  for (const sentence of paragraphs.flatMap((p) => p.sentences)) {
+    const terms = tokenizeForSearch(sentence.text);
+    if (terms.length === 0) continue;
+
+    const start = findSentenceStart(words, terms, cursor) ?? findSentenceStart(words, terms, 0);
+    if (start === null) continue;
+
+    // Hyphenation can add a word or two, so look for the last word near where it should be
+    const lastTerm = terms[terms.length - 1];
+    const expectedEnd = start + terms.length - 1;
+    let end = Math.min(expectedEnd, words.length - 1);
+    for (let i = Math.max(start, expectedEnd - 2); i <= Math.min(expectedEnd + 2, words.length - 1); i++) {
+      if (words[i].term === lastTerm) {
+        end = i;
+        break;
+      }
+      if (i + 1 < words.length && words[i].term + words[i + 1].term === lastTerm) {
+        end = i + 1; // Split across a line break
+        break;
+      }
+    }
+
+    const lines = Array.from(new Set(words.slice(start, end + 1).map((w) => w.line)));
+    sentenceLines.set(hashString(sentence.text), lines);
+    cursor = end + 1;
+  }
+
+  return sentenceLines;
+}
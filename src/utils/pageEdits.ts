@@ -0,0 +1,141 @@
+import { PageData, SentenceIdChange, VocabWord } from '../types';
+import { hashString } from './hash';
+import { addVocabContext } from './vocab';
+
+// A sentence being edited. `origins` are the ids of the saved sentences its
+// text came from, so vocab contexts can follow a sentence that's split or merged.
+export interface DraftSentence {
+  text: string;
+  origins: string[];
+  retranslate?: boolean; // Translate again even though the text didn't change
+}
+
+export type DraftParagraph = DraftSentence[];
+
+type SentenceText = { text: string; translation: string };
+
+export function draftFromPage(page: PageData): DraftParagraph[] {
+  return page.paragraphs.map((paragraph) =>
+    paragraph.sentences.map((sentence) => ({ text: sentence.text, origins: [hashString(sentence.text)] }))
+  );
+}
+
+// Same layout as PageData.originalText: sentences joined by spaces, paragraphs by blank lines
+export function draftToText(draft: DraftParagraph[]): string {
+  return draft.map((paragraph) => paragraph.map((s) => s.text.trim()).join(' ')).join('\n\n');
+}
+
+export function splitOriginalText(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0);
+}
+
+// Trim text and drop sentences and paragraphs that were emptied
+export function cleanDraft(draft: DraftParagraph[]): DraftParagraph[] {
+  return draft
+    .map((paragraph) =>
+      paragraph.map((s) => ({ ...s, text: s.text.trim() })).filter((s) => s.text.length > 0)
+    )
+    .filter((paragraph) => paragraph.length > 0);
+}
+
+const replaceParagraph = (draft: DraftParagraph[], p: number, ...paragraphs: DraftParagraph[]) => [
+  ...draft.slice(0, p),
+  ...paragraphs,
+  ...draft.slice(p + 1),
+];
+
+export function updateDraftSentence(
+  draft: DraftParagraph[],
+  p: number,
+  s: number,
+  changes: Partial<DraftSentence>
+): DraftParagraph[] {
+  return replaceParagraph(
+    draft,
+    p,
+    draft[p].map((sentence, i) => (i === s ? { ...sentence, ...changes } : sentence))
+  );
+}
+
+// Both halves keep the sentence's origins
+export function splitDraftSentence(draft: DraftParagraph[], p: number, s: number, offset: number): DraftParagraph[] {
+  const sentence = draft[p][s];
+  const first = sentence.text.slice(0, offset).trim();
+  const second = sentence.text.slice(offset).trim();
+  if (!first || !second) return draft;
+
+  const paragraph = [...draft[p]];
+  paragraph.splice(s, 1, { ...sentence, text: first }, { ...sentence, text: second });
+  return replaceParagraph(draft, p, paragraph);
+}
+
+export function mergeDraftSentenceWithNext(draft: DraftParagraph[], p: number, s: number): DraftParagraph[] {
+  const [current, next] = [draft[p][s], draft[p][s + 1]];
+  if (!next) return draft;
+
+  const paragraph = [...draft[p]];
+  paragraph.splice(s, 2, {
+    text: `${current.text.trim()} ${next.text.trim()}`,
+    origins: Array.from(new Set([...current.origins, ...next.origins])),
+    retranslate: current.retranslate || next.retranslate,
+  });
+  return replaceParagraph(draft, p, paragraph);
+}
+
+// Start a new paragraph at sentence `s`
+export function splitDraftParagraph(draft: DraftParagraph[], p: number, s: number): DraftParagraph[] {
+  if (s <= 0 || s >= draft[p].length) return draft;
+  return replaceParagraph(draft, p, draft[p].slice(0, s), draft[p].slice(s));
+}
+
+export function mergeDraftParagraphWithNext(draft: DraftParagraph[], p: number): DraftParagraph[] {
+  if (p + 1 >= draft.length) return draft;
+  return [...draft.slice(0, p), [...draft[p], ...draft[p + 1]], ...draft.slice(p + 2)];
+}
+
+export function sentencesById(paragraphs: Array<{ sentences: SentenceText[] }>): Map<string, SentenceText> {
+  return new Map(paragraphs.flatMap((p) => p.sentences).map((s) => [hashString(s.text), s]));
+}
+
+// Point contexts from `pageId` at the sentences that replaced theirs. When a
+// sentence was split, the context goes to the part that still contains the word.
+// Returns null when the word has no context on a replaced sentence.
+export function remapVocabContexts<T extends VocabWord>(
+  word: T,
+  pageId: string,
+  changes: SentenceIdChange[],
+  sentences: Map<string, SentenceText>
+): T | null {
+  const moved = word.contexts.some(
+    (c) => c.pageId === pageId && changes.some((change) => change.from === c.sentenceId)
+  );
+  if (!moved) return null;
+
+  let remapped: T = { ...word, contexts: [] };
+  for (const context of word.contexts) {
+    const targets =
+      context.pageId === pageId
+        ? changes.filter((change) => change.from === context.sentenceId && sentences.has(change.to))
+        : [];
+    if (targets.length === 0) {
+      remapped = addVocabContext(remapped, context);
+      continue;
+    }
+
+    const form = (context.form || word.word).toLocaleLowerCase();
+    const target =
+      targets.find((change) => sentences.get(change.to)!.text.toLocaleLowerCase().includes(form)) || targets[0];
+    const sentence = sentences.get(target.to)!;
+    remapped = addVocabContext(remapped, {
+      ...context,
+      sentenceId: target.to,
+      sentenceText: sentence.text,
+      sentenceTranslation: sentence.translation,
+    });
+  }
+
+  return remapped;
+}
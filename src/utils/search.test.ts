@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { SearchField, SearchPosting, WordInfo } from '../types';
+import { buildPagePostings, normalizeForSearch, rankSearchHits, tokenizeForSearch, vocabDocId } from './search';
+
+const posting = (
+  term: string,
+  docId: string,
+  pageId: string,
+  sentenceId: string,
+  field: SearchField
+): SearchPosting => ({
+  id: `${term}|${docId}|${sentenceId}|${field}`,
+  term,
+  docId,
+  pageId,
+  sentenceId,
+  field,
+  language: 'Albanian',
+});
+
+describe('tokenizeForSearch', () => {
+  it('folds case and diacritics and drops punctuation', () => {
+    expect(normalizeForSearch('Çfarë')).toBe('cfare');
+    expect(tokenizeForSearch('Unë lexoj, ti shkruan!')).toEqual(['une', 'lexoj', 'ti', 'shkruan']);
+  });
+});
+
+describe('buildPagePostings', () => {
+  const info: WordInfo = {
+    word: 'librin',
+    meaning: 'the book',
+    sentenceTranslation: 'I read the book.',
+    lemma: 'libër',
+  };
+
+  it('indexes stored pages, whose words are plain objects, like loaded ones', () => {
+    const page = (words: Map<string, WordInfo> | Record<string, WordInfo>) => ({
+      id: 'p1',
+      language: 'Albanian',
+      paragraphs: [{ sentences: [{ text: 'Lexoj librin.', translation: 'I read the book.', words }] }],
+    });
+
+    const fromMap = buildPagePostings(page(new Map([['librin', info]])));
+    const fromRecord = buildPagePostings(page({ librin: info }));
+
+    expect(fromRecord).toEqual(fromMap);
+    expect(fromMap.find((p) => p.term === 'liber')?.field).toBe('source'); // The lemma
+    expect(fromMap.find((p) => p.term === 'book')?.field).toBe('native');
+  });
+});
+
+describe('rankSearchHits', () => {
+  it('keeps only sentences that match every term', () => {
+    const hits = rankSearchHits(
+      ['lexoj', 'librin'],
+      [
+        [posting('lexoj', 'page:p1', 'p1', 's1', 'source'), posting('lexoj', 'page:p1', 'p1', 's2', 'source')],
+        [posting('librin', 'page:p1', 'p1', 's1', 'source')],
+      ]
+    );
+    expect(hits.map((h) => h.sentenceId)).toEqual(['s1']);
+  });
+
+  it('ranks exact terms above prefix matches', () => {
+    const hits = rankSearchHits(
+      ['liber'],
+      [[posting('liberi', 'page:p1', 'p1', 's1', 'source'), posting('liber', 'page:p2', 'p2', 's2', 'source')]]
+    );
+    expect(hits.map((h) => [h.sentenceId, h.score])).toEqual([
+      ['s2', 2],
+      ['s1', 1],
+    ]);
+  });
+
+  it('folds a vocab context into the page sentence it came from', () => {
+    const hits = rankSearchHits(
+      ['liber'],
+      [
+        [
+          posting('liber', 'page:p1', 'p1', 's1', 'source'),
+          posting('liber', vocabDocId('liber_Albanian'), 'p1', 's1', 'vocab'),
+        ],
+      ]
+    );
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ docId: 'page:p1', fields: ['source', 'vocab'], score: 4 });
+  });
+
+  it('keeps vocab imported without a page as its own hit', () => {
+    const hits = rankSearchHits(['liber'], [[posting('liber', vocabDocId('liber_Albanian'), '', 's1', 'vocab')]]);
+    expect(hits.map((h) => h.docId)).toEqual([vocabDocId('liber_Albanian')]);
+  });
+});
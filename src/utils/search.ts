@@ -0,0 +1,122 @@
+import { SearchField, SearchPosting, VocabWord, WordInfo } from '../types';
+import { hashString } from './hash';
+
+// Lowercase and strip diacritics, so "ë" matches "e" and "ç" matches "c"
+export function normalizeForSearch(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+export function tokenizeForSearch(text: string): string[] {
+  return normalizeForSearch(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+}
+
+// Sentence words are a Map in memory and a plain object once stored
+const wordInfos = (words: Map<string, WordInfo> | Record<string, WordInfo> | undefined): WordInfo[] =>
+  words instanceof Map ? Array.from(words.values()) : Object.values(words || {});
+
+class PostingCollector {
+  private postings = new Map<string, SearchPosting>();
+
+  constructor(private docId: string, private language: string) {}
+
+  add(text: string, field: SearchField, pageId: string, sentenceId: string) {
+    for (const term of tokenizeForSearch(text)) {
+      const id = `${term}|${this.docId}|${sentenceId}|${field}`;
+      if (!this.postings.has(id)) {
+        this.postings.set(id, { id, term, docId: this.docId, pageId, sentenceId, field, language: this.language });
+      }
+    }
+  }
+
+  result(): SearchPosting[] {
+    return Array.from(this.postings.values());
+  }
+}
+
+export const pageDocId = (pageId: string) => `page:${pageId}`;
+export const vocabDocId = (wordLanguage: string) => `vocab:${wordLanguage}`;
+
+// Source text, translations and word meanings of every sentence on a page.
+// Sentence words are a Map on loaded pages and a plain object on stored ones.
+export function buildPagePostings(page: {
+  id: string;
+  language: string;
+  paragraphs: Array<{
+    sentences: Array<{ text: string; translation: string; words: Map<string, WordInfo> | Record<string, WordInfo> }>;
+  }>;
+}): SearchPosting[] {
+  const collector = new PostingCollector(pageDocId(page.id), page.language);
+
+  for (const paragraph of page.paragraphs) {
+    for (const sentence of paragraph.sentences) {
+      const sentenceId = hashString(sentence.text);
+      collector.add(sentence.text, 'source', page.id, sentenceId);
+      collector.add(sentence.translation, 'native', page.id, sentenceId);
+      for (const info of wordInfos(sentence.words)) {
+        collector.add(info.meaning, 'native', page.id, sentenceId);
+        if (info.lemma) collector.add(info.lemma, 'source', page.id, sentenceId);
+      }
+    }
+  }
+
+  return collector.result();
+}
+
+// A vocab word, its forms and the contexts it was collected from
+export function buildVocabPostings(word: VocabWord & { word_language: string }): SearchPosting[] {
+  const collector = new PostingCollector(vocabDocId(word.word_language), word.language);
+
+  for (const context of word.contexts) {
+    collector.add([word.word, ...(word.forms || [])].join(' '), 'vocab', context.pageId, context.sentenceId);
+    collector.add(context.sentenceText, 'source', context.pageId, context.sentenceId);
+    collector.add(`${context.meaning} ${context.sentenceTranslation}`, 'native', context.pageId, context.sentenceId);
+  }
+
+  return collector.result();
+}
+
+export interface SearchHit {
+  docId: string;
+  pageId: string;
+  sentenceId: string;
+  language: string;
+  fields: SearchField[];
+  score: number;
+}
+
+// Keep sentences that match every query term; exact terms score above prefix matches.
+// `postingsByTerm[i]` holds the postings found for the i-th query term. A vocab
+// context pointing at a page sentence is folded into that sentence's hit.
+export function rankSearchHits(queryTerms: string[], postingsByTerm: SearchPosting[][]): SearchHit[] {
+  const hits = new Map<string, SearchHit>();
+  const matchedTerms = new Map<string, Set<number>>();
+
+  postingsByTerm.forEach((postings, termIndex) => {
+    for (const posting of postings) {
+      const key = `${posting.pageId ? pageDocId(posting.pageId) : posting.docId}#${posting.sentenceId}`;
+      let hit = hits.get(key);
+      if (!hit) {
+        hit = {
+          docId: posting.docId,
+          pageId: posting.pageId,
+          sentenceId: posting.sentenceId,
+          language: posting.language,
+          fields: [],
+          score: 0,
+        };
+        hits.set(key, hit);
+        matchedTerms.set(key, new Set());
+      }
+      matchedTerms.get(key)!.add(termIndex);
+      hit.score += posting.term === queryTerms[termIndex] ? 2 : 1;
+      if (!hit.fields.includes(posting.field)) hit.fields.push(posting.field);
+    }
+  });
+
+  return Array.from(hits.entries())
+    .filter(([key]) => matchedTerms.get(key)!.size === queryTerms.length)
+    .map(([, hit]) => hit)
+    .sort((a, b) => b.score - a.score);
+}
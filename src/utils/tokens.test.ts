@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { alignWordSpans, findWordOccurrences } from './tokens';
+
+const spanTexts = (text: string, words: string[]) =>
+  alignWordSpans(text, words).map(({ start, end }) => text.slice(start, end));
+
+describe('alignWordSpans', () => {
+  it('finds each word in order', () => {
+    const text = 'Unë lexoj librin, pastaj fle.';
+    expect(alignWordSpans(text, ['Unë', 'lexoj', 'librin'])).toEqual([
+      { start: 0, end: 3, key: 'unë' },
+      { start: 4, end: 9, key: 'lexoj' },
+      { start: 10, end: 16, key: 'librin' },
+    ]);
+  });
+
+  it('matches repeated words at successive occurrences', () => {
+    const text = 'po, po, jo';
+    expect(alignWordSpans(text, ['po', 'po', 'jo']).map((s) => s.start)).toEqual([0, 4, 8]);
+  });
+
+  it('does not match a word inside a longer one', () => {
+    // The article "e" is also a letter of "shtëpi" and "madhe"
+    expect(alignWordSpans('shtëpia e madhe', ['shtëpia', 'e', 'madhe']).map((s) => s.start)).toEqual([0, 8, 10]);
+  });
+
+  it('falls back to ignoring case', () => {
+    expect(spanTexts('Libri është i mirë', ['libri', 'është'])).toEqual(['Libri', 'është']);
+  });
+
+  it('keeps original offsets when lowercasing changes the length', () => {
+    // "İ" lowercases to two code units, which would shift every later match
+    expect(spanTexts('İstanbul Vjen sot', ['vjen', 'sot'])).toEqual(['Vjen', 'sot']);
+  });
+
+  it('skips words that are not in the text', () => {
+    expect(spanTexts('Ai vjen nesër', ['Ai', 'vij', 'nesër'])).toEqual(['Ai', 'nesër']);
+  });
+
+  it('matches substrings in scripts written without spaces', () => {
+    expect(spanTexts('我喜欢看书', ['我', '喜欢', '看书'])).toEqual(['我', '喜欢', '看书']);
+  });
+});
+
+describe('findWordOccurrences', () => {
+  it('finds every whole-word occurrence, ignoring case', () => {
+    const text = 'Libri im është libri yt, jo librat.';
+    expect(findWordOccurrences(text, 'libri')).toEqual([
+      { start: 0, end: 5 },
+      { start: 15, end: 20 },
+    ]);
+  });
+
+  it('finds expressions written out in full', () => {
+    expect(findWordOccurrences('Ai ra në dashuri me të.', 'ra në dashuri')).toEqual([{ start: 3, end: 16 }]);
+  });
+
+  it('keeps original offsets when lowercasing changes the length', () => {
+    const text = 'İstanbul, Vjen dhe vjen';
+    expect(findWordOccurrences(text, 'vjen').map(({ start, end }) => text.slice(start, end))).toEqual([
+      'Vjen',
+      'vjen',
+    ]);
+  });
+
+  it('finds nothing for a blank word', () => {
+    expect(findWordOccurrences('Ai vjen', '  ')).toEqual([]);
+  });
+});
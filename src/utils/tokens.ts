@@ -0,0 +1,139 @@
+import { Sentence, WordSpan } from '../types';
+
+export interface TextSegment {
+  text: string;
+  key?: string; // Set when the segment is a word with info in Sentence.words
+  tokenIndex?: number; // Index into Sentence.tokens (only for aligned sentences)
+}
+
+// Punctuation stripped from whitespace-split words on pages without token spans
+const LEGACY_PUNCTUATION = /[.,!?;:"""'']/g;
+
+// Scripts written without spaces between words, where a word can only be
+// found as a plain substring
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const WORD_CHAR = /[\p{L}\p{M}\p{N}]/u;
+
+// A match must not run on into a neighbouring word (e.g. the article "e"
+// inside "shtëpi"), unless the word is in a script without spaces
+function isWholeWord(text: string, start: number, end: number): boolean {
+  const word = text.slice(start, end);
+  if (UNSPACED_SCRIPT.test(word)) return true;
+  const joinsBefore = WORD_CHAR.test(word.charAt(0)) && WORD_CHAR.test(text.charAt(start - 1));
+  const joinsAfter = WORD_CHAR.test(word.charAt(word.length - 1)) && WORD_CHAR.test(text.charAt(end));
+  return !joinsBefore && !joinsAfter;
+}
+
+// Where the word next appears in the text as a whole word, at or after
+// `from`. Candidates are compared at their offsets in the original text,
+// since lowercasing can change a string's length (e.g. "İ").
+function findWord(text: string, word: string, from: number, ignoreCase = false): number {
+  const wanted = ignoreCase ? word.toLocaleLowerCase() : word;
+  for (let start = from; start + word.length <= text.length; start++) {
+    const candidate = text.slice(start, start + word.length);
+    if ((ignoreCase ? candidate.toLocaleLowerCase() : candidate) !== wanted) continue;
+    if (isWholeWord(text, start, start + word.length)) return start;
+  }
+  return -1;
+}
+
+// Locate each word in the sentence, in order, and return its character span.
+// Words are expected to be copied verbatim from the sentence; anything that
+// can't be found (e.g. a normalized form) is skipped rather than guessed.
+export function alignWordSpans(text: string, words: string[]): WordSpan[] {
+  const spans: WordSpan[] = [];
+  let cursor = 0;
+
+  for (const word of words) {
+    if (!word) continue;
+
+    let start = findWord(text, word, cursor);
+    if (start === -1) {
+      start = findWord(text, word, cursor, true);
+    }
+    if (start === -1) continue;
+
+    const end = start + word.length;
+    spans.push({ start, end, key: word.toLowerCase() });
+    cursor = end;
+  }
+
+  return spans;
+}
+
+// Every place a word (or an expression written out in full) appears in the
+// text as a whole word, ignoring case. Cloze cards use it both to pick their
+// sentences and to blank the word out, so a picked sentence can always be blanked.
+export function findWordOccurrences(text: string, word: string): Array<{ start: number; end: number }> {
+  const wanted = word.trim();
+  if (!wanted) return [];
+
+  const occurrences: Array<{ start: number; end: number }> = [];
+  let start = findWord(text, wanted, 0, true);
+  while (start !== -1) {
+    occurrences.push({ start, end: start + wanted.length });
+    start = findWord(text, wanted, start + wanted.length, true);
+  }
+  return occurrences;
+}
+
+// Find the tokens making up a multi-word expression, given its component words
+// in order. Components don't need to be adjacent (e.g. separable verbs).
+export function alignPhraseTokens(text: string, tokens: WordSpan[], components: string[]): number[] | null {
+  const tokenTexts = tokens.map((t) => text.slice(t.start, t.end).toLocaleLowerCase());
+  const wanted = components.map((c) => c.toLocaleLowerCase()).filter((c) => c.length > 0);
+  if (wanted.length < 2) return null;
+
+  for (let first = 0; first < tokenTexts.length; first++) {
+    if (tokenTexts[first] !== wanted[0]) continue;
+
+    const indices = [first];
+    for (let i = first + 1; i < tokenTexts.length && indices.length < wanted.length; i++) {
+      if (tokenTexts[i] === wanted[indices.length]) {
+        indices.push(i);
+      }
+    }
+    if (indices.length === wanted.length) return indices;
+  }
+
+  return null;
+}
+
+// Split a sentence into plain-text and word segments for rendering
+export function segmentSentence(sentence: Sentence): TextSegment[] {
+  if (sentence.tokens && sentence.tokens.length > 0) {
+    const segments: TextSegment[] = [];
+    let cursor = 0;
+
+    for (const token of sentence.tokens) {
+      if (token.start < cursor) continue; // Ignore overlapping spans
+      if (token.start > cursor) {
+        segments.push({ text: sentence.text.slice(cursor, token.start) });
+      }
+      segments.push({
+        text: sentence.text.slice(token.start, token.end),
+        key: sentence.words.has(token.key) ? token.key : undefined,
+        tokenIndex: sentence.tokens.indexOf(token),
+      });
+      cursor = token.end;
+    }
+
+    if (cursor < sentence.text.length) {
+      segments.push({ text: sentence.text.slice(cursor) });
+    }
+    return segments;
+  }
+
+  // Fallback for older pages: split on whitespace and strip punctuation
+  return sentence.text
+    .split(/(\s+)/)
+    .filter((part) => part.length > 0)
+    .map((part) => {
+      if (/^\s+$/.test(part)) return { text: ' ' };
+      const cleanWord = part.toLowerCase().replace(LEGACY_PUNCTUATION, '');
+      return {
+        text: part,
+        key: sentence.words.has(cleanWord) ? cleanWord : undefined,
+      };
+    });
+}
@@ -0,0 +1,24 @@
+import { AIModelConfig } from '../types';
+
+// Unicode form and spacing vary between OCR runs of the same line
+export function normalizeSentence(sentence: string): string {
+  return sentence.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+// A cached translation is only reused for the same sentence, languages, model
+// and prompt. The sentence comes last, so the separator can't make keys clash.
+export function translationCacheKey(
+  sentence: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  model: AIModelConfig,
+  promptVersion: number
+): string {
+  return [
+    `v${promptVersion}`,
+    `${model.provider}:${model.model}`,
+    sourceLanguage,
+    targetLanguage,
+    normalizeSentence(sentence),
+  ].join('|');
+}
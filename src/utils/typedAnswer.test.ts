@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Rating } from '../services/fsrs';
+import { diffAnswer, gradeTypedAnswer } from './typedAnswer';
+
+describe('gradeTypedAnswer', () => {
+  it('accepts the exact word regardless of case and surrounding punctuation', () => {
+    expect(gradeTypedAnswer('  Shtëpi! ', ['shtëpi'])).toMatchObject({
+      verdict: 'exact',
+      suggestedRating: Rating.Good,
+    });
+  });
+
+  it('suggests Hard when only diacritics are missing', () => {
+    const result = gradeTypedAnswer('shtepi', ['shtëpi']);
+    expect(result).toMatchObject({ verdict: 'diacritics', suggestedRating: Rating.Hard, expected: 'shtëpi' });
+    expect(result.diff).toEqual([
+      { kind: 'same', text: 'sht' },
+      { kind: 'accent', text: 'ë' },
+      { kind: 'same', text: 'pi' },
+    ]);
+  });
+
+  it('suggests Again for a different word', () => {
+    expect(gradeTypedAnswer('libër', ['shtëpi'])).toMatchObject({ verdict: 'wrong', suggestedRating: Rating.Again });
+  });
+
+  it('grades against the closest accepted answer', () => {
+    // The form seen in the sentence and the lemma are both accepted
+    expect(gradeTypedAnswer('librin', ['librin', 'libër']).expected).toBe('librin');
+    expect(gradeTypedAnswer('liber', ['librin', 'libër'])).toMatchObject({
+      verdict: 'diacritics',
+      expected: 'libër',
+    });
+    expect(gradeTypedAnswer('librn', ['librin', 'libër'])).toMatchObject({ verdict: 'wrong', expected: 'librin' });
+  });
+
+  it('counts an empty answer as wrong', () => {
+    expect(gradeTypedAnswer('', ['shtëpi']).verdict).toBe('wrong');
+    expect(gradeTypedAnswer('shtëpi', ['']).verdict).toBe('wrong');
+  });
+});
+
+describe('diffAnswer', () => {
+  it('marks letters left out and typed in excess', () => {
+    expect(diffAnswer('librn', 'librin')).toEqual([
+      { kind: 'same', text: 'libr' },
+      { kind: 'missing', text: 'i' },
+      { kind: 'same', text: 'n' },
+    ]);
+    expect(diffAnswer('librinn', 'librin')).toEqual([
+      { kind: 'same', text: 'librin' },
+      { kind: 'extra', text: 'n' },
+    ]);
+  });
+
+  it('shows the expected letter for a wrong diacritic', () => {
+    expect(diffAnswer('cfare', 'çfarë')).toEqual([
+      { kind: 'accent', text: 'ç' },
+      { kind: 'same', text: 'far' },
+      { kind: 'accent', text: 'ë' },
+    ]);
+  });
+
+  it('lines up a replaced letter as missing and extra', () => {
+    expect(diffAnswer('mal', 'mol')).toEqual([
+      { kind: 'same', text: 'm' },
+      { kind: 'missing', text: 'o' },
+      { kind: 'extra', text: 'a' },
+      { kind: 'same', text: 'l' },
+    ]);
+  });
+});
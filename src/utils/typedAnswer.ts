@@ -0,0 +1,104 @@
+import { TypedAnswerVerdict } from '../types';
+import { Rating } from '../services/fsrs';
+import { normalizeForSearch } from './search';
+
+// One run of the diff between a typed answer and the expected one. An accent
+// part is a letter typed without (or with the wrong) diacritic; its text is
+// the expected letter.
+export interface AnswerDiffPart {
+  kind: 'same' | 'accent' | 'missing' | 'extra';
+  text: string;
+}
+
+export interface TypedAnswerResult {
+  verdict: TypedAnswerVerdict;
+  suggestedRating: Rating;
+  expected: string; // The accepted answer closest to what was typed
+  diff: AnswerDiffPart[];
+}
+
+const SUGGESTED_RATINGS: Record<TypedAnswerVerdict, Rating> = {
+  exact: Rating.Good,
+  diacritics: Rating.Hard,
+  wrong: Rating.Again,
+};
+
+const VERDICT_RANK: Record<TypedAnswerVerdict, number> = { exact: 0, diacritics: 1, wrong: 2 };
+
+// Case, surrounding punctuation and repeated spaces don't count as mistakes
+function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s.,!?;:"'«»“”„…¡¿-]+|[\s.,!?;:"'«»“”„…¡¿-]+$/g, '');
+}
+
+const foldChar = (char: string) => normalizeForSearch(char);
+
+// Character diff of typed against expected, lining up letters that differ
+// only in diacritics so they show as accent mistakes rather than wrong letters
+export function diffAnswer(typed: string, expected: string): AnswerDiffPart[] {
+  const a = Array.from(normalizeAnswer(typed));
+  const b = Array.from(normalizeAnswer(expected));
+  const foldedA = a.map(foldChar);
+  const foldedB = b.map(foldChar);
+
+  // lcs[i][j]: longest common subsequence of a[i..] and b[j..], on folded letters
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = foldedA[i] === foldedB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: AnswerDiffPart[] = [];
+  const push = (kind: AnswerDiffPart['kind'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && foldedA[i] === foldedB[j]) {
+      push(a[i] === b[j] ? 'same' : 'accent', b[j]);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push('missing', b[j++]);
+    } else {
+      push('extra', a[i++]);
+    }
+  }
+  return parts;
+}
+
+function verdictFor(typed: string, expected: string): TypedAnswerVerdict {
+  if (typed === expected) return 'exact';
+  return normalizeForSearch(typed) === normalizeForSearch(expected) ? 'diacritics' : 'wrong';
+}
+
+// Number of letters to add or remove to get from typed to expected
+const distance = (diff: AnswerDiffPart[]) =>
+  diff.reduce((sum, part) => sum + (part.kind === 'missing' || part.kind === 'extra' ? part.text.length : 0), 0);
+
+// Grades a typed answer against every accepted answer and keeps the best match
+export function gradeTypedAnswer(typed: string, accepted: string[]): TypedAnswerResult {
+  const answer = normalizeAnswer(typed);
+  let best: TypedAnswerResult | null = null;
+  let bestDistance = Infinity;
+
+  for (const expected of accepted.map(normalizeAnswer).filter((e) => e.length > 0)) {
+    const verdict = verdictFor(answer, expected);
+    const diff = diffAnswer(answer, expected);
+    const rank = VERDICT_RANK[verdict] - (best ? VERDICT_RANK[best.verdict] : Infinity);
+    if (rank < 0 || (rank === 0 && distance(diff) < bestDistance)) {
+      best = { verdict, suggestedRating: SUGGESTED_RATINGS[verdict], expected, diff };
+      bestDistance = distance(diff);
+    }
+  }
+
+  return best || { verdict: 'wrong', suggestedRating: Rating.Again, expected: '', diff: diffAnswer(answer, '') };
+}
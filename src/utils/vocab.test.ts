@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { Rating, State } from 'ts-fsrs';
+import { VocabWord, WordReview } from '../types';
+import { fsrsService } from '../services/fsrs';
+import { replayVocabCards, unionVocabWords } from './vocab';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2025, 0, 1);
+
+const word = (overrides: Partial<VocabWord> = {}): VocabWord => ({
+  word: 'libër',
+  language: 'Albanian',
+  addedAt: START,
+  ignored: false,
+  fsrsCard: fsrsService.createCard(),
+  contexts: [],
+  ...overrides,
+});
+
+const review = (day: number, rating: Rating, overrides: Partial<WordReview> = {}): WordReview => ({
+  id: `r${day}-${overrides.cardType || 'recognition'}`,
+  word: 'libër',
+  language: 'Albanian',
+  rating,
+  date: START + day * DAY,
+  reviewedAt: new Date(START + day * DAY).toISOString().split('T')[0],
+  ...overrides,
+});
+
+describe('replayVocabCards', () => {
+  it('rebuilds the card from the reviews of both devices', () => {
+    const reviews = [review(0, Rating.Good), review(3, Rating.Good), review(10, Rating.Again)];
+    const merged = replayVocabCards(word(), [word(), word()], reviews);
+
+    expect(merged.fsrsCard).toEqual(fsrsService.replayReviews(reviews));
+    expect(merged.fsrsCard.reps).toBe(3);
+    expect(merged.fsrsCard.lapses).toBe(1);
+  });
+
+  it('replays each direction from its own reviews', () => {
+    const reviews = [review(0, Rating.Good), review(1, Rating.Easy, { cardType: 'reverse' })];
+    const merged = replayVocabCards(word(), [word()], reviews);
+
+    expect(merged.fsrsCard.reps).toBe(1);
+    expect(merged.typeCards?.reverse.reps).toBe(1);
+    expect(merged.typeCards?.cloze).toBeUndefined();
+  });
+
+  it('keeps a card marked as known, which has no review of its own', () => {
+    const known = word({ fsrsCard: fsrsService.createKnownCard(), cardSetAt: { recognition: START + 5 * DAY } });
+    const reviewedElsewhere = word();
+    const reviews = [review(0, Rating.Again), review(1, Rating.Hard)];
+
+    const merged = replayVocabCards(unionVocabWords(known, reviewedElsewhere), [known, reviewedElsewhere], reviews);
+
+    expect(merged.fsrsCard).toEqual(known.fsrsCard);
+    expect(merged.fsrsCard.state).toBe(State.Review);
+  });
+
+  it('replays reviews made after a card was marked as known on top of it', () => {
+    const knownCard = fsrsService.createKnownCard();
+    const markedAt = new Date(knownCard.last_review!).getTime();
+    const known = word({ fsrsCard: knownCard, cardSetAt: { recognition: markedAt } });
+    const reviews = [review(0, Rating.Again), review(1, Rating.Again, { date: markedAt + DAY })];
+
+    const merged = replayVocabCards(known, [known, word()], reviews);
+
+    expect(merged.fsrsCard.lapses).toBe(knownCard.lapses + 1);
+    expect(merged.fsrsCard.reps).toBe(knownCard.reps + 1);
+  });
+
+  it('uses the card set most recently when both devices set one', () => {
+    const earlier = word({ fsrsCard: fsrsService.createCard(), cardSetAt: { recognition: START + DAY } });
+    const later = word({ fsrsCard: fsrsService.createKnownCard(), cardSetAt: { recognition: START + 2 * DAY } });
+
+    const merged = replayVocabCards(unionVocabWords(earlier, later), [earlier, later], []);
+
+    expect(merged.fsrsCard).toEqual(later.fsrsCard);
+    expect(merged.cardSetAt?.recognition).toBe(START + 2 * DAY);
+  });
+});
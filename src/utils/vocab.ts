@@ -0,0 +1,157 @@
+import { DeckSettings, ReviewCardType, VocabContext, VocabWord, WordInfo, WordReview } from '../types';
+import { fsrsService } from '../services/fsrs';
+import { CARD_TYPES, getTypeCard, setTypeCard } from './cardTypes';
+import { hashString } from './hash';
+
+export type StoredVocabWord = VocabWord & { word_language: string };
+
+export function vocabKey(word: string, language: string): string {
+  return `${word.toLowerCase()}_${language}`;
+}
+
+// Context for a word seen in a reader sentence. Vocab is keyed by lemma, so
+// the form that appeared is kept when it differs.
+export function buildWordContext(info: WordInfo, sentenceText: string, pageId: string, seenAt: number): VocabContext {
+  return {
+    sentenceId: hashString(sentenceText),
+    sentenceText,
+    sentenceTranslation: info.sentenceTranslation,
+    meaning: info.meaning,
+    pageId,
+    seenAt,
+    ...(info.lemma && info.lemma.toLowerCase() !== info.word.toLowerCase() ? { form: info.word } : {}),
+    ...(info.grammar ? { grammar: info.grammar } : {}),
+  };
+}
+
+// Add a context, deduplicated by sentence and surface form
+export function addVocabContext<T extends VocabWord>(vocabWord: T, context: VocabContext): T {
+  const form = context.form?.toLowerCase();
+  const contextExists = vocabWord.contexts.some(
+    (c) => c.sentenceId === context.sentenceId && (c.form?.toLowerCase() || vocabWord.word) === (form || vocabWord.word)
+  );
+
+  const forms = vocabWord.forms || [];
+  const isNewForm = !!form && form !== vocabWord.word && !forms.includes(form);
+
+  return {
+    ...vocabWord,
+    contexts: contextExists ? vocabWord.contexts : [...vocabWord.contexts, context],
+    forms: isNewForm ? [...forms, form] : forms,
+  };
+}
+
+// Later last_review wins; a card that was never reviewed loses to one that was
+const pickCard = (a: any, b: any): any => {
+  const aReviewed = a?.last_review ? new Date(a.last_review).getTime() : 0;
+  const bReviewed = b?.last_review ? new Date(b.last_review).getTime() : 0;
+  return bReviewed > aReviewed ? b : a;
+};
+
+const pickTypeCards = (a: VocabWord['typeCards'], b: VocabWord['typeCards']): VocabWord['typeCards'] => {
+  if (!a || !b) return a || b;
+
+  const merged = { ...a };
+  for (const cardType of Object.keys(b) as ReviewCardType[]) {
+    merged[cardType] = pickCard(a[cardType], b[cardType]);
+  }
+  return merged;
+};
+
+const latestCardSetAt = (a: VocabWord['cardSetAt'], b: VocabWord['cardSetAt']): VocabWord['cardSetAt'] => {
+  if (!a || !b) return a || b;
+
+  const merged = { ...a };
+  for (const cardType of Object.keys(b) as ReviewCardType[]) {
+    merged[cardType] = Math.max(a[cardType] || 0, b[cardType] || 0);
+  }
+  return merged;
+};
+
+// Fold a surface-form entry into its lemma entry
+export function mergeVocabWords<T extends VocabWord>(target: T, source: VocabWord): T {
+  let merged: T = {
+    ...target,
+    addedAt: Math.min(target.addedAt, source.addedAt),
+    fsrsCard: pickCard(target.fsrsCard, source.fsrsCard),
+    typeCards: pickTypeCards(target.typeCards, source.typeCards),
+    cardSetAt: latestCardSetAt(target.cardSetAt, source.cardSetAt),
+  };
+
+  for (const context of source.contexts) {
+    merged = addVocabContext(merged, { ...context, form: context.form || source.word });
+  }
+  for (const form of [source.word, ...(source.forms || [])]) {
+    if (form !== merged.word && !(merged.forms || []).includes(form)) {
+      merged = { ...merged, forms: [...(merged.forms || []), form] };
+    }
+  }
+
+  return merged;
+}
+
+// Combine two copies of the same entry, e.g. from different devices
+export function unionVocabWords<T extends VocabWord>(target: T, source: VocabWord): T {
+  let merged: T = {
+    ...target,
+    addedAt: Math.min(target.addedAt, source.addedAt),
+    fsrsCard: pickCard(target.fsrsCard, source.fsrsCard),
+    typeCards: pickTypeCards(target.typeCards, source.typeCards),
+    cardSetAt: latestCardSetAt(target.cardSetAt, source.cardSetAt),
+  };
+
+  for (const context of source.contexts) {
+    merged = addVocabContext(merged, context);
+  }
+  for (const form of source.forms || []) {
+    if (!(merged.forms || []).includes(form)) {
+      merged = { ...merged, forms: [...(merged.forms || []), form] };
+    }
+  }
+
+  return merged;
+}
+
+// Rebuild each direction's card of a word merged from several copies by
+// replaying the combined review log. A card set other than by a review (e.g.
+// marked as known) has no log entry, so the latest one is kept and only the
+// reviews after it are replayed on top.
+export function replayVocabCards<T extends VocabWord>(
+  merged: T,
+  copies: VocabWord[],
+  reviews: WordReview[],
+  deck?: DeckSettings
+): T {
+  let replayed = merged;
+  for (const cardType of CARD_TYPES) {
+    const setAt = (copy: VocabWord) => copy.cardSetAt?.[cardType] || 0;
+    const setCopy = copies.filter((c) => setAt(c) > 0).sort((a, b) => setAt(b) - setAt(a))[0];
+    const since = setCopy ? setAt(setCopy) : 0;
+    const typeReviews = reviews.filter((r) => (r.cardType || 'recognition') === cardType && r.date > since);
+
+    if (setCopy) {
+      const setCard = getTypeCard(setCopy, cardType);
+      replayed = setTypeCard(replayed, cardType, fsrsService.replayReviews(typeReviews, deck, setCard));
+    } else if (typeReviews.length > 0) {
+      replayed = setTypeCard(replayed, cardType, fsrsService.replayReviews(typeReviews, deck));
+    }
+  }
+  return replayed;
+}
+
+// A lemma entry seeded from one of its surface forms, ready for mergeVocabWords
+export function lemmaEntryFrom(source: VocabWord, lemma: string): StoredVocabWord {
+  return {
+    word: lemma.toLowerCase(),
+    language: source.language,
+    addedAt: source.addedAt,
+    ignored: source.ignored,
+    ...(source.isPhrase ? { isPhrase: source.isPhrase } : {}),
+    fsrsCard: source.fsrsCard,
+    ...(source.typeCards ? { typeCards: source.typeCards } : {}),
+    ...(source.cardSetAt ? { cardSetAt: source.cardSetAt } : {}),
+    contexts: [],
+    forms: [],
+    word_language: vocabKey(lemma, source.language),
+  };
+}
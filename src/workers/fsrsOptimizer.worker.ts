@@ -0,0 +1,14 @@
+import type { OptimizerMessage, OptimizerRequest } from '../services/fsrsOptimizer';
+import { buildReviewSequences, optimizeWeights } from '../utils/fsrsOptimizer';
+
+const post = (message: OptimizerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<OptimizerRequest>) => {
+  try {
+    const sequences = buildReviewSequences(event.data.reviews);
+    const result = optimizeWeights(sequences, event.data.weights, (progress) => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Optimization failed' });
+  }
+};
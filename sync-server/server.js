@@ -0,0 +1,140 @@
+// Reference sync server for the language page tool.
+//
+// Keeps the latest version of every record in a JSON file and hands out
+// changes by sequence number. No dependencies: run it with
+//
+//   node sync-server/server.js
+//
+// Environment: PORT (default 8787), SYNC_DATA (default ./sync-data.json),
+// SYNC_TOKEN (optional bearer token clients must send).
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA || './sync-data.json';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // Pages carry their image data
+
+// Stores the app syncs (SYNCED_STORES in src/services/indexedDB.ts)
+const STORES = new Set([
+  'pages',
+  'books',
+  'vocab',
+  'reviewSessions',
+  'dailyStats',
+  'wordReviews',
+  'deckSettings',
+]);
+
+// { seq, records: { "store/key": { store, key, modifiedAt, deleted?, record?, seq, device } } }
+const db = existsSync(DATA_FILE)
+  ? JSON.parse(readFileSync(DATA_FILE, 'utf8'))
+  : { seq: 0, records: {} };
+
+const save = () => {
+  // Write then rename so a crash never leaves a half-written file
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(db));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+// GET /changes?since=<seq>&device=<id>: changes after `since` made by other devices
+const pull = (url, res) => {
+  const since = Number(url.searchParams.get('since')) || 0;
+  const device = url.searchParams.get('device');
+
+  const changes = Object.values(db.records)
+    .filter((entry) => entry.seq > since && entry.device !== device)
+    .sort((a, b) => a.seq - b.seq)
+    .map(({ store, key, modifiedAt, deleted, record }) => ({ store, key, modifiedAt, deleted, record }));
+
+  send(res, 200, { changes, cursor: db.seq });
+};
+
+// POST /changes { device, changes }: keep each change if it's newer than what we have
+const push = async (req, res) => {
+  const { device, changes } = JSON.parse(await readBody(req));
+  if (!Array.isArray(changes)) {
+    send(res, 400, { error: 'changes must be an array' });
+    return;
+  }
+
+  let accepted = 0;
+  for (const change of changes) {
+    if (!STORES.has(change.store)) continue; // Not a store the app syncs
+    const id = `${change.store}/${change.key}`;
+    const existing = db.records[id];
+    if (existing && existing.modifiedAt >= change.modifiedAt) continue;
+
+    db.seq += 1;
+    db.records[id] = {
+      store: change.store,
+      key: change.key,
+      modifiedAt: change.modifiedAt,
+      ...(change.deleted ? { deleted: true } : { record: change.record }),
+      seq: db.seq,
+      device,
+    };
+    accepted++;
+  }
+
+  if (accepted > 0) save();
+  send(res, 200, { accepted, cursor: db.seq });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    send(res, 204);
+    return;
+  }
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    send(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    if (url.pathname === '/changes' && req.method === 'GET') {
+      pull(url, res);
+    } else if (url.pathname === '/changes' && req.method === 'POST') {
+      await push(req, res);
+    } else {
+      send(res, 404, { error: 'Not found' });
+    }
+  } catch (error) {
+    console.error('Error handling request:', error);
+    send(res, 500, { error: error.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});